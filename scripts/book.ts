@@ -0,0 +1,66 @@
+// scripts/book.ts
+// Build the opening book from engine self-play (and optionally deeper searches).
+//
+//   npm run book -- [--setups standard,quick] [--games 40] [--plies 8]
+//                   [--time 100] [--noise 0.5] [--verify-ms 0] [--min-weight 1]
+//                   [--merge] [--out src/engine/bookData.ts]
+//
+// Each self-play game credits its first --plies moves with the result their side
+// got; with --verify-ms, every book position is also searched that long and the
+// move found gets one extra game's worth of weight. Moves below --min-weight are
+// dropped, and so are positions no longer reachable from any setup's start.
+import { writeFileSync } from "node:fs";
+import { initialBoard, SETUPS } from "../src/game/setupBoard";
+import type { SetupId } from "../src/game/setupBoard";
+import type { Position } from "../src/game/position";
+import { addGame, addSearchMoves, formatBookModule, pruneBook } from "../src/engine/book";
+import type { OpeningBook } from "../src/engine/book";
+import { OPENING_BOOK } from "../src/engine/bookData";
+import type { EngineSpec } from "../src/engine/engines";
+import { playGame } from "../src/engine/tournament";
+
+function option(name: string, fallback: string): string {
+  const i = process.argv.indexOf(`--${name}`);
+  return i >= 0 && i + 1 < process.argv.length ? process.argv[i + 1] : fallback;
+}
+
+const setups = option("setups", "standard,quick").split(",") as SetupId[];
+const games = Number(option("games", "40"));
+const plies = Number(option("plies", "8"));
+const timeMs = Number(option("time", "100"));
+const noise = Number(option("noise", "0.5"));
+const verifyMs = Number(option("verify-ms", "0"));
+const minWeight = Number(option("min-weight", "1"));
+const out = option("out", "src/engine/bookData.ts");
+
+for (const setup of setups) {
+  if (!(setup in SETUPS)) {
+    console.error(`Unknown setup '${setup}' (expected one of: ${Object.keys(SETUPS).join(", ")}).`);
+    process.exit(1);
+  }
+}
+
+const book: OpeningBook = process.argv.includes("--merge") ? structuredClone(OPENING_BOOK) : {};
+// noise makes the games differ; the book itself is what we're building, so it stays off
+const spec: EngineSpec = { kind: "search", limits: { timeMs, noise } };
+
+for (const setup of setups) {
+  const start: Position = { board: initialBoard(setup), turn: "Black" };
+  console.log(`'${setup}': ${games} self-play games at ${timeMs} ms per move`);
+  for (let g = 1; g <= games; g++) {
+    const { result, moves } = playGame({ Black: spec, White: spec }, start, 300);
+    addGame(book, start, moves, result, plies);
+    const how = !result ? "unfinished" : result.kind === "draw" ? "draw" : `${result.winner} won`;
+    console.log(`  game ${g}/${games}: ${how} in ${moves.length} plies, ${Object.keys(book).length} positions`);
+  }
+  if (verifyMs > 0) {
+    console.log(`'${setup}': searching book positions for ${verifyMs} ms each`);
+    addSearchMoves(book, start, plies, { timeMs: verifyMs }, 1, (n) => console.log(`  position ${n}`));
+  }
+}
+
+const starts = (Object.keys(SETUPS) as SetupId[]).map((id): Position => ({ board: initialBoard(id), turn: "Black" }));
+const pruned = pruneBook(book, minWeight, starts);
+const note = `Built ${new Date().toISOString().slice(0, 10)} from ${games} games per setup (${setups.join(", ")}), ${plies} plies deep: ${Object.keys(pruned).length} positions.`;
+writeFileSync(out, formatBookModule(pruned, note));
+console.log(`Wrote ${out}`);
@@ -0,0 +1,63 @@
+// scripts/tablebase.ts
+// Build the endgame tablebases the AI and the board's verdict display load.
+//
+//   npm run tablebase -- [--boards 6x6:4,8x8:3] [--out-dir public/tablebase] [--keep]
+//
+// Each board entry is <rows>x<cols>:<max counters>; the tables cover every
+// position where both sides together have at most that many counters (4 or
+// more brings in kings). Sizes grow quickly: 6x6:4 takes a few minutes.
+// This is its own step, run before `npm run build` when the tables should ship
+// (the app plays on without them). --keep skips boards whose file exists, so a
+// cached public/tablebase only rebuilds what is missing; the files are build
+// output, not checked in. A board fails if any forced win takes longer than the
+// no-progress draw allows, since the engine trusts those wins as they stand.
+import { existsSync, mkdirSync, writeFileSync } from "node:fs";
+import { gzipSync } from "node:zlib";
+import { DRAW_RULES } from "../src/game/result";
+import { encodeTablebase } from "../src/engine/tablebase";
+import { generateTablebase } from "../src/engine/tablebaseGen";
+
+function option(name: string, fallback: string): string {
+  const i = process.argv.indexOf(`--${name}`);
+  return i >= 0 && i + 1 < process.argv.length ? process.argv[i + 1] : fallback;
+}
+
+const boards = option("boards", "6x6:4,8x8:3").split(",");
+const outDir = option("out-dir", "public/tablebase");
+const keep = process.argv.includes("--keep");
+
+mkdirSync(outDir, { recursive: true });
+for (const spec of boards) {
+  const m = /^(\d+)x(\d+):(\d+)$/.exec(spec);
+  if (!m) {
+    console.error(`Bad board '${spec}' (expected <rows>x<cols>:<max counters>, e.g. 6x6:4).`);
+    process.exit(1);
+  }
+  const [rows, cols, maxCounters] = m.slice(1).map(Number);
+  const file = `${outDir}/${rows}x${cols}.ntbz`;
+  if (keep && existsSync(file)) {
+    console.log(`Keeping ${file}`);
+    continue;
+  }
+  console.log(`${rows}x${cols}, up to ${maxCounters} counters`);
+  let longestWin = 0;
+  const tb = generateTablebase(rows, cols, maxCounters, (g) => {
+    const [bk, bc, wk, wc] = g.name;
+    longestWin = Math.max(longestWin, g.longestWin);
+    console.log(
+      `  Black ${bk}+${bc} vs White ${wk}+${wc}: ${g.positions} positions, ` +
+        `${g.wins} wins / ${g.draws} draws / ${g.losses} losses for the side to move, ` +
+        `longest win ${g.longestWin} plies (${(g.ms / 1000).toFixed(1)} s)`
+    );
+  });
+  console.log(`  Longest win: ${longestWin} plies`);
+  if (longestWin > DRAW_RULES.noProgressPlies) {
+    console.error(
+      `${rows}x${cols} has a ${longestWin}-ply win, longer than the ${DRAW_RULES.noProgressPlies}-ply no-progress draw.`
+    );
+    process.exit(1);
+  }
+  const bytes = gzipSync(encodeTablebase(tb), { level: 9 });
+  writeFileSync(file, bytes);
+  console.log(`Wrote ${file} (${(bytes.length / 1024).toFixed(0)} KiB)`);
+}
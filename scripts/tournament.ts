@@ -0,0 +1,132 @@
+// scripts/tournament.ts
+// Engine-vs-engine matches: win/draw/loss, Elo with error bars and an SPRT verdict.
+//
+//   npm run tournament -- [--engines engines.json] [--mode round-robin|gauntlet]
+//                         [--setup quick] [--openings 20] [--opening-plies 4] [--seed 1]
+//                         [--openings-file positions.txt] [--max-plies 300]
+//                         [--sprt 0,20] [--alpha 0.05] [--beta 0.05]
+//
+// engines.json is a list of configurations; `params` overrides individual weights:
+//   [{ "name": "d3", "kind": "search", "limits": { "maxDepth": 3 } },
+//    { "name": "d3-keys", "kind": "search", "limits": { "maxDepth": 3 }, "params": { "eval": { "key": 6 } } },
+//    { "name": "mcts", "kind": "mcts", "limits": { "iterations": 2000 } },
+//    { "name": "greedy", "kind": "greedy", "lookahead": true }]
+import { readFileSync } from "node:fs";
+import { parsePosition } from "../src/game/position";
+import type { Position } from "../src/game/position";
+import { describeResult } from "../src/game/result";
+import { SETUPS } from "../src/game/setupBoard";
+import type { SetupId } from "../src/game/setupBoard";
+import { EVAL_WEIGHTS } from "../src/engine/weights";
+import type { EvalParams } from "../src/engine/evalParams";
+import type { EngineSpec } from "../src/engine/engines";
+import type { SearchLimits } from "../src/engine/search";
+import type { MctsLimits } from "../src/engine/mcts";
+import { eloEstimate, randomOpenings, runTournament } from "../src/engine/tournament";
+import type { Entrant, SprtOptions, TournamentMode } from "../src/engine/tournament";
+
+function option(name: string, fallback: string): string {
+  const i = process.argv.indexOf(`--${name}`);
+  return i >= 0 && i + 1 < process.argv.length ? process.argv[i + 1] : fallback;
+}
+
+function fail(message: string): never {
+  console.error(message);
+  process.exit(1);
+}
+
+type EngineEntry = {
+  name: string;
+  kind: EngineSpec["kind"];
+  limits?: SearchLimits | MctsLimits;
+  lookahead?: boolean;
+  params?: { eval?: Partial<EvalParams["eval"]>; moves?: Partial<EvalParams["moves"]> };
+};
+
+function withWeights(over: EngineEntry["params"]): EvalParams | undefined {
+  if (!over) return undefined;
+  return { eval: { ...EVAL_WEIGHTS.eval, ...over.eval }, moves: { ...EVAL_WEIGHTS.moves, ...over.moves } };
+}
+
+function toEntrant(e: EngineEntry): Entrant {
+  const params = withWeights(e.params);
+  switch (e.kind) {
+    case "search":
+      return { name: e.name, spec: { kind: "search", limits: { ...(e.limits as SearchLimits), params } } };
+    case "mcts":
+      return { name: e.name, spec: { kind: "mcts", limits: { ...(e.limits as MctsLimits) } } };
+    case "greedy":
+      return { name: e.name, spec: { kind: "greedy", lookahead: e.lookahead, params } };
+    default:
+      return fail(`Engine '${e.name}': unknown kind '${e.kind}'.`);
+  }
+}
+
+const DEFAULT_ENGINES: EngineEntry[] = [
+  { name: "search-100ms", kind: "search", limits: { timeMs: 100 } },
+  { name: "greedy-lookahead", kind: "greedy", lookahead: true },
+];
+
+const enginesFile = option("engines", "");
+const entries: EngineEntry[] = enginesFile ? JSON.parse(readFileSync(enginesFile, "utf8")) : DEFAULT_ENGINES;
+if (entries.length < 2) fail("Need at least two engines.");
+const entrants = entries.map(toEntrant);
+
+const mode = option("mode", "round-robin") as TournamentMode;
+if (mode !== "round-robin" && mode !== "gauntlet") fail(`Unknown mode '${mode}'.`);
+
+const setup = option("setup", "quick") as SetupId;
+if (!(setup in SETUPS)) fail(`Unknown setup '${setup}' (expected one of: ${Object.keys(SETUPS).join(", ")}).`);
+
+let openings: Position[];
+const openingsFile = option("openings-file", "");
+if (openingsFile) {
+  openings = readFileSync(openingsFile, "utf8")
+    .split("\n")
+    .map((l) => l.trim())
+    .filter(Boolean)
+    .map((line, i) => {
+      const pos = parsePosition(line);
+      return "error" in pos ? fail(`${openingsFile}:${i + 1}: ${pos.error}`) : pos;
+    });
+} else {
+  const count = Number(option("openings", "20"));
+  openings = randomOpenings(setup, count, Number(option("opening-plies", "4")), Number(option("seed", "1")));
+}
+
+let sprtOpts: SprtOptions | undefined;
+const sprtArg = option("sprt", "");
+if (sprtArg) {
+  const [elo0, elo1] = sprtArg.split(",").map(Number);
+  if (!Number.isFinite(elo0) || !Number.isFinite(elo1) || elo0 >= elo1) fail("--sprt wants elo0,elo1 with elo0 < elo1.");
+  sprtOpts = { elo0, elo1, alpha: Number(option("alpha", "0.05")), beta: Number(option("beta", "0.05")) };
+}
+
+console.log(`${entrants.length} engines, ${mode}, ${openings.length} openings × 2 colours per pairing`);
+let played = 0;
+const pairings = runTournament(
+  entrants,
+  { mode, openings, maxPlies: Number(option("max-plies", "300")), sprt: sprtOpts },
+  (g) => {
+    played++;
+    const how = g.result ? describeResult(g.result) : "Draw: ply limit reached.";
+    console.log(`  ${played}. ${g.black} (Black) vs ${g.white} (White), opening ${g.opening + 1}: ${how} [${g.plies} plies]`);
+  }
+);
+
+console.log("");
+for (const { a, b, stats, sprt } of pairings) {
+  const n = stats.wins + stats.draws + stats.losses;
+  const score = (100 * (stats.wins + stats.draws / 2)) / n;
+  const { elo, margin } = eloEstimate(stats);
+  const fmt = (x: number) => (Number.isFinite(x) ? x.toFixed(1) : "inf");
+  console.log(`${entrants[a].name} vs ${entrants[b].name}: +${stats.wins} =${stats.draws} -${stats.losses} (${n} games)`);
+  console.log(`  score ${score.toFixed(1)}%, Elo ${elo > 0 ? "+" : elo < 0 ? "-" : ""}${fmt(Math.abs(elo))} ± ${fmt(margin)}`);
+  if (sprt && sprtOpts) {
+    const verdict =
+      sprt.verdict === "H1" ? `H1 accepted (≥ ${sprtOpts.elo1} Elo)`
+      : sprt.verdict === "H0" ? `H0 accepted (≤ ${sprtOpts.elo0} Elo)`
+      : "inconclusive";
+    console.log(`  SPRT [${sprtOpts.elo0}, ${sprtOpts.elo1}]: LLR ${sprt.llr.toFixed(2)} (${sprt.lower.toFixed(2)}, ${sprt.upper.toFixed(2)}) ${verdict}`);
+  }
+}
@@ -0,0 +1,50 @@
+// scripts/tune.ts
+// Fit the evaluation weights to self-play results and write a new weights module.
+//
+//   npm run tune -- [--games 40] [--setup quick] [--depth 2] [--time 200]
+//                   [--passes 20] [--out src/engine/weights.ts]
+import { writeFileSync } from "node:fs";
+import { EVAL_WEIGHTS } from "../src/engine/weights";
+import { fitScale, formatWeightsModule, selfPlaySamples, texelError, tuneParams } from "../src/engine/tune";
+import { SETUPS } from "../src/game/setupBoard";
+import type { SetupId } from "../src/game/setupBoard";
+
+function option(name: string, fallback: string): string {
+  const i = process.argv.indexOf(`--${name}`);
+  return i >= 0 && i + 1 < process.argv.length ? process.argv[i + 1] : fallback;
+}
+
+const games = Number(option("games", "40"));
+const setup = option("setup", "quick") as SetupId;
+const depth = Number(option("depth", "2"));
+const timeMs = Number(option("time", "200"));
+const passes = Number(option("passes", "20"));
+const out = option("out", "src/engine/weights.ts");
+
+if (!(setup in SETUPS)) {
+  console.error(`Unknown setup '${setup}' (expected one of: ${Object.keys(SETUPS).join(", ")}).`);
+  process.exit(1);
+}
+
+console.log(`Self-play: ${games} games on '${setup}' at depth ${depth} / ${timeMs} ms per move`);
+const samples = selfPlaySamples(
+  { games, setup, limits: { maxDepth: depth, timeMs, noise: 0.3 }, openingPlies: 4, maxPlies: 200 },
+  (g, n) => console.log(`  game ${g}/${games}: ${n} positions`)
+);
+if (!samples.length) {
+  console.error("No decided games to learn from; try more games.");
+  process.exit(1);
+}
+
+const k = fitScale(samples, EVAL_WEIGHTS);
+const before = texelError(samples, EVAL_WEIGHTS, k);
+console.log(`K = ${k.toFixed(4)}, error ${before.toFixed(5)}`);
+
+const { params, error } = tuneParams(samples, EVAL_WEIGHTS, k, {
+  passes,
+  onPass: (pass, err) => console.log(`  pass ${pass}: error ${err.toFixed(5)}`),
+});
+
+const note = `Tuned ${new Date().toISOString().slice(0, 10)} on ${samples.length} positions from ${games} '${setup}' games (error ${before.toFixed(5)} -> ${error.toFixed(5)}).`;
+writeFileSync(out, formatWeightsModule(params, note));
+console.log(`Wrote ${out}`);
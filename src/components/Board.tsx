@@ -1,26 +1,49 @@
 // src/components/Board.tsx
 import { useEffect, useMemo, useRef, useState } from "react";
 import cn from "classnames";
-import { SQUARE, DIRS } from "../game/types";
-import type { Coord } from "../game/types";
-import type { Board, Player } from "../game/rules";
+import { SQUARE, DIRS, DIR_ORDER } from "../game/types";
+import type { Coord, Dir } from "../game/types";
+import type { Player } from "../game/rules";
 import {
   isKing,
   pieceAt,
   valueAt,
-  legalMovesFor,
+  rawValueAt,
   getRayForKing,
   ownerOf,
   isKeyPiece,
+  sizeOf,
 } from "../game/rules";
 import { scatterBases, validateScatter } from "../game/scatter";
+import { explainAction } from "../game/explain";
+import { describeResult } from "../game/result";
+import { SETUPS } from "../game/setupBoard";
+import { serializePosition } from "../game/position";
+import type { Action } from "../game/actions";
 import { PieceView } from "./Piece";
 import { RayOverlay } from "./RayOverlay";
+import { HintOverlay } from "./HintOverlay";
+import { EvalGraph } from "./EvalGraph";
+import { EvalBar } from "./EvalBar";
+import { GhostBoard } from "./GhostBoard";
 import { useGame } from "../store/gameStore";
-import { enumerateMoves, pickWithLookahead } from "../engine/greedy";
-
-type AllDir = "N" | "NE" | "E" | "SE" | "S" | "SW" | "W" | "NW";
-const DIR_ORDER: AllDir[] = ["N", "NE", "E", "SE", "S", "SW", "W", "NW"];
+import type { Highlight } from "../store/gameStore";
+import { createAIClient } from "../engine/aiClient";
+import type { AIClient } from "../engine/aiClient";
+import { WIN } from "../engine/search";
+import type { SearchResult } from "../engine/search";
+import { LIVE_EVAL_SPEC, blackScore, formatEval, pvLine } from "../engine/liveEval";
+import type { AIMove } from "../engine/aiTypes";
+import { HINT_SPEC, hintReason } from "../engine/hint";
+import { createAnalysisClient } from "../engine/analysisClient";
+import type { AnalysisClient } from "../engine/analysisClient";
+import type { GameAnalysis, Judgement } from "../engine/analysis";
+import { formatAction } from "../game/notation";
+import { hashKey, hashPosition } from "../game/zobrist";
+import { AI_ENGINES, DIFFICULTIES, engineSpecFor } from "../engine/difficulty";
+import type { AIEngine } from "../engine/difficulty";
+import { loadTablebase, probe } from "../engine/tablebase";
+import type { Tablebase } from "../engine/tablebase";
 
 // Toolbar styles
 const BTN_W = 120;
@@ -68,7 +91,7 @@ const BTN_PRIMARY: React.CSSProperties = {
   color: "#fff",
 };
 
-function dirToAngle(dir: AllDir) {
+function dirToAngle(dir: Dir) {
   switch (dir) {
     case "N": return 0;
     case "NE": return 45;
@@ -80,7 +103,7 @@ function dirToAngle(dir: AllDir) {
     case "NW": return 315;
   }
 }
-function nextCW(d: AllDir): AllDir {
+function nextCW(d: Dir): Dir {
   const i = DIR_ORDER.indexOf(d);
   return DIR_ORDER[(i + 1) % 8];
 }
@@ -93,42 +116,62 @@ type AnimState =
   | { kind: "move"; from: Coord; to: Coord; owner: Player }
   | { kind: "scatter"; from: Coord; l1: Coord; l2: Coord; owner: Player };
 
-function fullValueAt(board: Board, pos: Coord): number {
-  const p = pieceAt(board, pos);
-  if (!p) return 0;
-  let total = p.counters.length;
-  for (let r = 0; r < 8; r++) {
-    for (let c = 0; c < 8; c++) {
-      const qPos = { r, c };
-      const q = pieceAt(board, qPos);
-      if (!q || !isKing(q) || !q.arrowDir) continue;
-      const ray = getRayForKing(board, qPos);
-      const hits = ray.some((s) => s.r === pos.r && s.c === pos.c);
-      if (hits) total += ownerOf(q) === ownerOf(p) ? 1 : -1;
-    }
-  }
-  return total;
-}
+const JUDGEMENT_MARK: Record<Judgement, string> = {
+  best: "",
+  good: "",
+  inaccuracy: "?!",
+  mistake: "?",
+  blunder: "??",
+};
 
 export function BoardView() {
   const {
-    board,
+    board: liveBoard,
+    history,
+    start,
+    moves,
     turn,
+    hash,
+    seen,
+    noProgress,
     selected,
+    highlights,
     select,
-    actMove,
-    actCombine,
-    actRotateArrow,
-    actScatter,
-    winner,
+    dispatch,
+    result,
+    freeRotation,
     gameMode,
     aiColor,
     setGameMode,
     setAIColor,
+    difficulty,
+    setDifficulty,
+    aiEngine,
+    setAIEngine,
+    setup,
+    setSetup,
+    loadPosition,
+    exportGame,
+    importGame,
   } = useGame();
 
+  // Post-game review: the board shows an earlier position (index into the game's positions)
+  const [review, setReview] = useState<number | null>(null);
+  const positions = useMemo(() => [...history.map((h) => h.board), liveBoard], [history, liveBoard]);
+  const board = review !== null ? positions[review] : liveBoard;
+  const shownTurn = review !== null ? history[review].turn : turn;
+  // what the search needs of the game behind the shown position (draw rules)
+  const shownGame = useMemo(
+    () => (review !== null ? history[review] : { seen, noProgress }),
+    [review, history, seen, noProgress]
+  );
+
+  const analysisRef = useRef<AnalysisClient | null>(null);
+  const [analysis, setAnalysis] = useState<{ data: GameAnalysis; total: number; done: boolean } | null>(null);
+
   const [hover, setHover] = useState<Coord | null>(null);
   const [showHelp, setShowHelp] = useState(true);
+  const gameFileRef = useRef<HTMLInputElement>(null);
 
   // Scatter UI
   const [scatterMode, setScatterMode] = useState(false);
@@ -136,33 +179,64 @@ export function BoardView() {
 
   // Rotate UI
   const [rotateMode, setRotateMode] = useState(false);
-  const [previewDir, setPreviewDir] = useState<AllDir | null>(null);
+  const [previewDir, setPreviewDir] = useState<Dir | null>(null);
+
+  // Illegal-click feedback
+  const [illegal, setIllegal] = useState<{ at: Coord; message: string } | null>(null);
+  const illegalTimer = useRef<number | null>(null);
 
   // Anim
   const [anim, setAnim] = useState<AnimState>(null);
   const [animGo, setAnimGo] = useState(false);
   const animTimer = useRef<number | null>(null);
 
-  // Legal
-  const legal = useMemo(() => {
-    if (!selected || scatterMode || rotateMode) {
-      return { moves: [] as Coord[], combines: [] as Coord[], captures: [] as Coord[] };
-    }
-    return legalMovesFor(board, selected);
-  }, [board, selected, scatterMode, rotateMode]);
+  // AI worker and its progress (null while the AI is not thinking)
+  const aiRef = useRef<AIClient | null>(null);
+  const [thinking, setThinking] = useState<{ progress: SearchResult | null } | null>(null);
+  // A move of the AI's that the rules refused: the AI stops on that position until retried
+  const [aiError, setAiError] = useState<{ key: string; message: string } | null>(null);
+  const aiStuck = aiError && aiError.key === hashKey(hash) ? aiError.message : null;
+
+  // Hint: its own worker, so asking doesn't disturb the AI's search
+  const hintRef = useRef<AIClient | null>(null);
+  const [hint, setHint] = useState<{ move: AIMove; reason: string } | null>(null);
+  const [hinting, setHinting] = useState(false);
+  const canHint = !result && !freeRotation && !(gameMode === "vsAI" && turn === aiColor);
+
+  // Evaluation bar and principal variation: a background search of the shown position
+  const evalRef = useRef<AIClient | null>(null);
+  // shown by default except against the AI, where it competes with the AI for the CPU
+  const [evalChoice, setEvalChoice] = useState<boolean | null>(null);
+  const showEval = evalChoice ?? gameMode !== "vsAI";
+  const aiThinking = thinking !== null;
+  const [liveEval, setLiveEval] = useState<{ key: string; result: SearchResult } | null>(null);
+  const [pvStep, setPvStep] = useState(0);
+  const shownKey = useMemo(() => hashKey(hashPosition(board, shownTurn)), [board, shownTurn]);
 
+  // Endgame tablebase for this board size (null until loaded, or if there is none)
+  const [tablebase, setTablebase] = useState<Tablebase | null>(null);
+
+  // Legal step targets (move / capture / combine) for the selection, from the store
+  const stepTargets = useMemo(() => {
+    if (!selected || scatterMode || rotateMode) return [] as Highlight[];
+    return highlights.filter((h) => h.type !== "scatter");
+  }, [highlights, selected, scatterMode, rotateMode]);
+
+  const size = sizeOf(board);
   const selectedPiece = selected ? pieceAt(board, selected) : null;
   const selectedIsKing = !!(selectedPiece && isKing(selectedPiece));
   const friendlySelected = !!(selectedPiece && ownerOf(selectedPiece) === turn); // must belong to current turn
+  // A value-3+ king gets one free re-orientation per turn; value 2 spends the move
+  const selectedValue = selected ? valueAt(board, selected) : 0;
   const canOrientNow = selected
-    ? selectedIsKing && friendlySelected && valueAt(board, selected) >= 2
+    ? selectedIsKing && friendlySelected && selectedValue >= 2 && !(freeRotation && selectedValue >= 3)
     : false;
 
   // Rays
   const rayLines = useMemo(() => {
     const lines: { path: Coord[]; selected: boolean }[] = [];
-    for (let r = 0; r < 8; r++) {
-      for (let c = 0; c < 8; c++) {
+    for (let r = 0; r < board.length; r++) {
+      for (let c = 0; c < board[r].length; c++) {
         const pos = { r, c };
         const p = pieceAt(board, pos);
         if (!p || !isKing(p) || !p.arrowDir) continue;
@@ -175,60 +249,174 @@ export function BoardView() {
     return lines;
   }, [board, selected]);
 
+  useEffect(() => {
+    let live = true;
+    setTablebase(null);
+    loadTablebase(size.rows, size.cols).then((tb) => {
+      if (live) setTablebase(tb);
+    });
+    return () => {
+      live = false;
+    };
+  }, [size.rows, size.cols]);
+
+  // Exact outcome with best play, once few enough counters are left (not mid-turn)
+  const tablebaseVerdict = useMemo(() => {
+    if (!tablebase || result || freeRotation) return null;
+    return probe(tablebase, board, turn);
+  }, [tablebase, board, turn, result, freeRotation]);
+
   // Hover value
   const hoverValue = useMemo(() => {
     if (!hover) return null;
-    return fullValueAt(board, hover);
+    return rawValueAt(board, hover);
   }, [board, hover]);
 
-  // AI loop
-useEffect(() => {
-  if (winner) return;
-  if (gameMode !== "vsAI") return;
-  if (turn !== aiColor) return;
-  if (rotateMode || scatterMode) return;
-
-  const t = setTimeout(() => {
-    const action =
-      pickWithLookahead(board, aiColor, { replyLimit: 6, moveLimit: 24 }) ??
-      (enumerateMoves(board, aiColor)[0] ?? null);
-
-    if (!action) return;
-
-    switch (action.kind) {
-      case "combine":
-        actCombine(action.from, action.to);
-        break;
-      case "rotate":
-        actRotateArrow(action.at, action.dir);
-        break;
-      case "scatter":
-        actScatter(action.from, action.l1, action.l2);
-        break;
-      case "move":
-        actMove(action.from, action.to, !!action.capture);
-        break;
-    }
-  }, 180);
-
-  return () => clearTimeout(t);
-}, [
-  board,
-  turn,
-  winner,
-  gameMode,
-  aiColor,
-  rotateMode,
-  scatterMode,
-  actMove,
-  actCombine,
-  actRotateArrow,
-  actScatter,
-]);
+  // AI loop: the search runs in the worker; its reply is only played if the
+  // position it was asked about is still the one on the board
+  useEffect(() => {
+    if (result) return;
+    if (gameMode !== "vsAI") return;
+    if (turn !== aiColor) return;
+    if (rotateMode || scatterMode) return;
+    if (aiStuck) return;
+
+    const ai = (aiRef.current ??= createAIClient());
+    let live = true;
+    const t = setTimeout(() => {
+      setThinking({ progress: null });
+      const spec = engineSpecFor(aiEngine, difficulty);
+      const onProgress = (progress: SearchResult) => {
+        if (live) setThinking({ progress });
+      };
+      const { key, done } = ai.think(board, aiColor, spec, onProgress, { seen, noProgress });
+      done.then((r) => {
+        if (!live || !r?.move) return;
+        if (hashKey(useGame.getState().hash) !== key) return;
+        setThinking(null);
+        if (dispatch(r.move)) return;
+        const why = explainAction(board, aiColor, r.move, { freeRotationUsed: !!freeRotation });
+        const reason = why.legal ? "the rules refused it" : why.message;
+        setAiError({ key, message: `The AI's move ${formatAction(board, r.move)} is illegal: ${reason}` });
+      });
+    }, 180);
+
+    return () => {
+      live = false;
+      clearTimeout(t);
+      ai.cancel();
+      setThinking(null);
+    };
+  }, [
+    board,
+    turn,
+    seen,
+    noProgress,
+    result,
+    gameMode,
+    aiColor,
+    aiEngine,
+    difficulty,
+    rotateMode,
+    scatterMode,
+    aiStuck,
+    freeRotation,
+    dispatch,
+  ]);
+
+  useEffect(
+    () => () => {
+      aiRef.current?.dispose();
+      hintRef.current?.dispose();
+      evalRef.current?.dispose();
+      analysisRef.current?.cancel();
+    },
+    []
+  );
+
+  useEffect(() => {
+    setPvStep(0);
+    // nothing to search once the game is over or halfway through a compound turn;
+    // paused while the AI is thinking
+    if (!showEval || aiThinking || (review === null && (result || freeRotation))) return;
+    const client = (evalRef.current ??= createAIClient());
+    let live = true;
+    const t = setTimeout(() => {
+      const onProgress = (progress: SearchResult) => {
+        if (live) setLiveEval({ key, result: progress });
+      };
+      const { key, done } = client.think(board, shownTurn, LIVE_EVAL_SPEC, onProgress, shownGame);
+      done.then((r) => {
+        if (live && r) setLiveEval({ key, result: r });
+      });
+    }, 150);
+    return () => {
+      live = false;
+      clearTimeout(t);
+      client.cancel();
+    };
+  }, [showEval, aiThinking, board, shownTurn, shownGame, review, result, freeRotation]);
+
+  const liveResult = liveEval?.key === shownKey ? liveEval.result : null;
+  const evalScore =
+    review === null && result
+      ? result.kind === "draw"
+        ? 0
+        : result.winner === "Black"
+          ? WIN
+          : -WIN
+      : liveResult && blackScore(liveResult.score, shownTurn);
+  const pv = useMemo(
+    () => (liveResult ? pvLine(board, shownTurn, liveResult.pv) : null),
+    [liveResult, board, shownTurn]
+  );
+  const step = pv ? Math.min(pvStep, pv.moves.length) : 0;
+
+  // An analysis (and the review of it) belongs to the game as it was: drop both once it changes
+  useEffect(() => {
+    analysisRef.current?.cancel();
+    setAnalysis(null);
+    setReview(null);
+  }, [moves]);
+
+  function startAnalysis() {
+    const client = (analysisRef.current ??= createAnalysisClient());
+    const total = moves.length;
+    setAnalysis({ data: { plies: [], evals: [] }, total, done: false });
+    client
+      .analyze(start, moves, (partial) => setAnalysis({ data: partial, total, done: false }))
+      .then((a) => {
+        if (a) setAnalysis({ data: a, total, done: true });
+      });
+  }
+
+  // What the review is showing: the move played from this position, and its grade
+  const reviewed = review !== null ? analysis?.data.plies[review] ?? null : null;
+  const reviewBetter =
+    reviewed && reviewed.best && reviewed.judgement !== "best" && reviewed.judgement !== "good" ? reviewed.best : null;
+
+  // A hint is for one position: drop it (or the search for it) once the board changes
+  useEffect(() => {
+    hintRef.current?.cancel();
+    setHint(null);
+    setHinting(false);
+  }, [hash]);
+
+  function requestHint() {
+    const client = (hintRef.current ??= createAIClient());
+    setHint(null);
+    setHinting(true);
+    const { key, done } = client.think(board, turn, HINT_SPEC, undefined, { seen, noProgress });
+    done.then((r) => {
+      if (!r || hashKey(useGame.getState().hash) !== key) return;
+      setHinting(false);
+      if (r.move) setHint({ move: r.move, reason: hintReason(board, turn, r.move, r.score) });
+    });
+  }
 
   // Click square
   function onSquareClick(r: number, c: number) {
-    if (winner) return;
+    if (result) return;
     if (gameMode === "vsAI" && turn === aiColor) return;
 
     const pos = { r, c };
@@ -253,28 +441,25 @@ useEffect(() => {
       return;
     }
 
-    const canMove = legal.moves.some((m) => coordEq(m, pos));
-    const canCap  = legal.captures.some((m) => coordEq(m, pos));
-    const canComb = legal.combines.some((m) => coordEq(m, pos));
+    const target = stepTargets.find((h) => coordEq(h.to, pos));
 
     const mover = pieceAt(board, selected)!;
     const moverOwner = ownerOf(mover);
 
     // Do not allow acting with a piece that no longer belongs to the current turn
     if (moverOwner !== turn) {
-      select(null as any);
+      select(null);
       return;
     }
 
-    if (canMove || canCap || canComb) {
+    if (target) {
       const owner = moverOwner;
       setAnim({ kind: "move", from: selected, to: pos, owner });
       setAnimGo(false);
       requestAnimationFrame(() => requestAnimationFrame(() => setAnimGo(true)));
       if (animTimer.current) window.clearTimeout(animTimer.current);
       animTimer.current = window.setTimeout(() => {
-        if (canComb) actCombine(selected, pos);
-        else actMove(selected, pos, canCap);
+        dispatch(target.action);
         setAnim(null);
       }, 180);
       return;
@@ -282,23 +467,47 @@ useEffect(() => {
 
     const p2 = pieceAt(board, pos);
     if (p2 && ownerOf(p2) === turn) {
+      // two adjacent plain singles with no combine highlight: a refused combine, so
+      // say why; any other friendly piece just takes the selection
+      const singles = [mover, p2].every((p) => !isKing(p) && !isKeyPiece(p));
+      if (singles && Math.max(Math.abs(pos.r - selected.r), Math.abs(pos.c - selected.c)) === 1) {
+        const why = explainAction(board, turn, { kind: "combine", from: selected, to: pos });
+        if (!why.legal) {
+          showIllegal(pos, why.message);
+          return;
+        }
+      }
       select(pos);
       return;
     }
 
-    select(null as any);
+    // Illegal target: keep the selection and say why instead of silently deselecting
+    const attempt: Action = { kind: p2 ? "capture" : "move", from: selected, to: pos };
+    const why = explainAction(board, turn, attempt);
+    if (!why.legal) {
+      showIllegal(pos, why.message);
+      return;
+    }
+
+    select(null);
+  }
+
+  function showIllegal(at: Coord, message: string) {
+    setIllegal({ at, message });
+    if (illegalTimer.current) window.clearTimeout(illegalTimer.current);
+    illegalTimer.current = window.setTimeout(() => setIllegal(null), 2600);
   }
 
   // Rotate helpers
   function cycleCW() {
     if (!selected || !selectedIsKing) return;
     if (!friendlySelected) return;
-    const cur = (selectedPiece as any)?.arrowDir as AllDir | null;
+    const cur = selectedPiece?.arrowDir ?? null;
     setRotateMode(true);
     setPreviewDir((prev) => (prev ? nextCW(prev) : cur ? nextCW(cur) : "N"));
   }
   // Click a dot to enter rotate mode with that absolute direction
-  function handleOrient(dir: AllDir) {
+  function handleOrient(dir: Dir) {
     if (!selected || !selectedIsKing) return;
     if (!friendlySelected) return;
     setRotateMode(true);
@@ -310,13 +519,8 @@ useEffect(() => {
       setPreviewDir(null);
       return;
     }
-    const prevTurn = turn; // track before
-    actRotateArrow(selected, previewDir as any);
-    const nextTurn = useGame.getState().turn; // read after store update
-    // if the rotate consumed the turn (value-2), clear selection to block further actions
-    if (nextTurn !== prevTurn) {
-      select(null as any); // clear selection on turn flip
-    }
+    // the store clears the selection itself if the rotation consumed the turn
+    dispatch({ kind: "rotate", at: selected, dir: previewDir });
     setRotateMode(false);
     setPreviewDir(null);
   }
@@ -341,7 +545,7 @@ useEffect(() => {
   // Hotkeys
   useEffect(() => {
     function onKey(e: KeyboardEvent) {
-      if (!selected || winner) return;
+      if (!selected || result) return;
       if (gameMode === "vsAI" && turn === aiColor) return;
       const selPiece = selected ? pieceAt(board, selected) : null;
       const selOwner = selPiece ? ownerOf(selPiece) : null;
@@ -370,7 +574,7 @@ useEffect(() => {
           );
           if (animTimer.current) window.clearTimeout(animTimer.current);
           animTimer.current = window.setTimeout(() => {
-            actScatter(selected, scatterInfo.l1, scatterInfo.l2);
+            dispatch({ kind: "scatter", from: selected, base: scatterInfo.base });
             setAnim(null);
             setScatterMode(false);
             setScatterBase(null);
@@ -396,7 +600,7 @@ useEffect(() => {
     rotateMode,
     previewDir,
     board,
-    winner,
+    result,
     gameMode,
     turn,
     aiColor,
@@ -406,9 +610,15 @@ useEffect(() => {
   useEffect(() => {
     return () => {
       if (animTimer.current) window.clearTimeout(animTimer.current);
+      if (illegalTimer.current) window.clearTimeout(illegalTimer.current);
     };
   }, []);
 
+  // A stale "why not" bubble is misleading once the position changes
+  useEffect(() => {
+    setIllegal(null);
+  }, [board, selected]);
+
   function centerOf(pos: Coord) {
     return {
       x: pos.c * SQUARE + SQUARE / 2,
@@ -446,16 +656,16 @@ useEffect(() => {
 
   // All destinations
   const allDestinations = useMemo(() => {
-    if (!selected || scatterMode || rotateMode) return [] as Coord[];
-    const list = [...legal.moves, ...legal.combines, ...legal.captures];
     const seen = new Set<string>();
-    return list.filter((p) => {
-      const k = `${p.r}-${p.c}`;
-      if (seen.has(k)) return false;
-      seen.add(k);
-      return true;
-    });
-  }, [legal, selected, scatterMode, rotateMode]);
+    return stepTargets
+      .map((h) => h.to)
+      .filter((p) => {
+        const k = `${p.r}-${p.c}`;
+        if (seen.has(k)) return false;
+        seen.add(k);
+        return true;
+      });
+  }, [stepTargets]);
 
   return (
     <div
@@ -479,7 +689,7 @@ useEffect(() => {
           border: "1px solid #2c2c2c",
           borderRadius: 8,
           color: "#ddd",
-          height: SQUARE * 8,
+          height: SQUARE * size.rows,
           overflowY: "auto",
           overflowX: "hidden",
           opacity: showHelp ? 1 : 0,
@@ -489,7 +699,7 @@ useEffect(() => {
         }}
       >
         {/* Winner banner */}
-        {winner && (
+        {result && (
           <div
             style={{
               marginBottom: 8,
@@ -500,10 +710,231 @@ useEffect(() => {
               color: "#f4dada",
             }}
           >
-            <strong>Game over:</strong> {winner} wins (both enemy keys captured).
+            <strong>Game over:</strong> {describeResult(result)}
           </div>
         )}
 
+        {/* Post-game analysis */}
+        {result && moves.length > 0 && (
+          <div
+            style={{
+              marginBottom: 8,
+              padding: "6px 10px",
+              border: "1px solid #2c2c2c",
+              borderRadius: 8,
+              background: "#1b1b1b",
+              fontSize: 12,
+              display: "flex",
+              flexDirection: "column",
+              gap: 6,
+            }}
+          >
+            {!analysis ? (
+              <button onClick={startAnalysis}>Analyze game</button>
+            ) : (
+              <>
+                <strong>
+                  Analysis
+                  {!analysis.done && ` (${analysis.data.plies.length}/${analysis.total} plies…)`}
+                </strong>
+                <EvalGraph
+                  evals={analysis.data.evals}
+                  judgements={analysis.data.plies.map((p) => p.judgement)}
+                  total={analysis.total + 1}
+                  current={review ?? positions.length - 1}
+                  onSelect={(i) => setReview(i === positions.length - 1 ? null : i)}
+                />
+                <div style={{ display: "grid", gridTemplateColumns: "1fr 1fr 1fr", gap: 6 }}>
+                  <button
+                    disabled={(review ?? positions.length - 1) === 0}
+                    onClick={() => setReview((review ?? positions.length - 1) - 1)}
+                  >
+                    ◀
+                  </button>
+                  <button
+                    disabled={review === null}
+                    onClick={() => setReview(review !== null && review + 1 < positions.length - 1 ? review + 1 : null)}
+                  >
+                    ▶
+                  </button>
+                  <button disabled={review === null} onClick={() => setReview(null)}>
+                    End
+                  </button>
+                </div>
+                {reviewed && (
+                  <div style={{ lineHeight: 1.35 }}>
+                    Ply {reviewed.ply + 1}: {reviewed.turn} played{" "}
+                    <strong>
+                      {formatAction(board, reviewed.move)}
+                      {JUDGEMENT_MARK[reviewed.judgement]}
+                    </strong>{" "}
+                    ({reviewed.judgement})
+                    {reviewBetter && (
+                      <>
+                        {" "}
+                        — better: <strong style={{ color: "#f5dfb0" }}>{formatAction(board, reviewBetter)}</strong>
+                      </>
+                    )}
+                  </div>
+                )}
+                {(["Black", "White"] as Player[]).map((side) => {
+                  const mine = analysis.data.plies.filter((p) => p.turn === side);
+                  const count = (j: Judgement) => mine.filter((p) => p.judgement === j).length;
+                  return (
+                    <div key={side} style={{ opacity: 0.85 }}>
+                      {side}: {count("inaccuracy")} inaccuracies · {count("mistake")} mistakes ·{" "}
+                      {count("blunder")} blunders
+                    </div>
+                  );
+                })}
+                <div style={{ maxHeight: 160, overflowY: "auto" }}>
+                  {analysis.data.plies
+                    .filter((p) => JUDGEMENT_MARK[p.judgement])
+                    .map((p) => (
+                      <div
+                        key={p.ply}
+                        onClick={() => setReview(p.ply)}
+                        style={{
+                          cursor: "pointer",
+                          padding: "2px 4px",
+                          borderRadius: 4,
+                          background: review === p.ply ? "#2f3a5c" : "transparent",
+                        }}
+                      >
+                        {p.ply + 1}. {p.turn} {formatAction(positions[p.ply], p.move)}
+                        {JUDGEMENT_MARK[p.judgement]} (−{p.drop.toFixed(1)})
+                        {p.best && <> · better {formatAction(positions[p.ply], p.best)}</>}
+                      </div>
+                    ))}
+                </div>
+              </>
+            )}
+          </div>
+        )}
+
+        {/* AI progress */}
+        {thinking && (
+          <div
+            style={{
+              marginBottom: 8,
+              padding: "6px 10px",
+              border: "1px solid #2c2c2c",
+              borderRadius: 8,
+              background: "#1a1f2b",
+              color: "#cdd6f4",
+              fontSize: 12,
+            }}
+          >
+            <strong>AI thinking…</strong>
+            {thinking.progress && (
+              <div style={{ opacity: 0.8 }}>
+                depth {thinking.progress.depth} · {thinking.progress.nodes.toLocaleString()}{" "}
+                {aiEngine === "mcts" ? "playouts" : "nodes"}
+                {thinking.progress.move && <> · best {formatAction(board, thinking.progress.move)}</>}
+              </div>
+            )}
+          </div>
+        )}
+
+        {/* AI move refused */}
+        {aiStuck && (
+          <div
+            style={{
+              marginBottom: 8,
+              padding: "6px 10px",
+              border: "1px solid #5c2c2c",
+              borderRadius: 8,
+              background: "#2b1a1a",
+              color: "#f4cdcd",
+              fontSize: 12,
+              display: "flex",
+              flexDirection: "column",
+              gap: 6,
+            }}
+          >
+            <span>{aiStuck}</span>
+            <button onClick={() => setAiError(null)}>Retry AI move</button>
+          </div>
+        )}
+
+        {/* Tablebase verdict */}
+        {tablebaseVerdict && (
+          <div
+            style={{
+              marginBottom: 8,
+              padding: "6px 10px",
+              border: "1px solid #2c2c2c",
+              borderRadius: 8,
+              background: "#1f2a1f",
+              color: "#d4ecd4",
+              fontSize: 12,
+            }}
+          >
+            <strong>Tablebase:</strong>{" "}
+            {tablebaseVerdict.outcome === "draw"
+              ? "a draw with best play"
+              : `${tablebaseVerdict.outcome === "win" ? turn : turn === "Black" ? "White" : "Black"} wins in ${
+                  tablebaseVerdict.plies
+                } ${tablebaseVerdict.plies === 1 ? "ply" : "plies"} with best play`}
+          </div>
+        )}
+
+        {/* Evaluation and principal variation */}
+        <div
+          style={{
+            marginBottom: 8,
+            padding: "6px 10px",
+            border: "1px solid #2c2c2c",
+            borderRadius: 8,
+            background: "#1b1b1b",
+            fontSize: 12,
+            display: "flex",
+            flexDirection: "column",
+            gap: 6,
+          }}
+        >
+          <div style={{ display: "flex", justifyContent: "space-between", alignItems: "center" }}>
+            <strong>
+              Evaluation{showEval && evalScore !== null && `: ${formatEval(evalScore)}`}
+              {showEval && liveResult && <span style={{ opacity: 0.7 }}> (depth {liveResult.depth})</span>}
+            </strong>
+            <button onClick={() => setEvalChoice(!showEval)}>{showEval ? "Hide" : "Show"}</button>
+          </div>
+          {showEval && pv && pv.moves.length > 0 && (
+            <>
+              <div style={{ lineHeight: 1.5 }}>
+                {pv.moves.map((m, i) => (
+                  <span
+                    key={i}
+                    onClick={() => setPvStep(i + 1)}
+                    style={{
+                      cursor: "pointer",
+                      marginRight: 6,
+                      padding: "0 2px",
+                      borderRadius: 3,
+                      background: step === i + 1 ? "#2f3a5c" : "transparent",
+                    }}
+                  >
+                    {m}
+                  </span>
+                ))}
+              </div>
+              <GhostBoard board={pv.boards[step]} next={liveResult?.pv[step]} />
+              <div style={{ display: "grid", gridTemplateColumns: "1fr 1fr 1fr", gap: 6 }}>
+                <button disabled={step === 0} onClick={() => setPvStep(step - 1)}>
+                  ◀
+                </button>
+                <button disabled={step >= pv.moves.length} onClick={() => setPvStep(step + 1)}>
+                  ▶
+                </button>
+                <button disabled={step === 0} onClick={() => setPvStep(0)}>
+                  Now
+                </button>
+              </div>
+            </>
+          )}
+        </div>
+
         {/* Mode & AI controls */}
         <div style={{ display: "flex", flexDirection: "column", gap: 6, marginBottom: 8 }}>
           <div style={{ display: "grid", gridTemplateColumns: "1fr 1fr", gap: 6 }}>
@@ -535,6 +966,27 @@ useEffect(() => {
             </button>
           </div>
 
+          <button
+            style={{
+              padding: "6px 10px",
+              width: "100%",
+              borderRadius: 6,
+              border: "1px solid #333",
+              background: hint ? "#3a3a3a" : "#262626",
+              color: "#ddd",
+              opacity: canHint ? 1 : 0.6,
+            }}
+            disabled={!canHint || hinting}
+            onClick={() => (hint ? setHint(null) : requestHint())}
+          >
+            {hinting ? "Thinking…" : hint ? "Hide hint" : "Hint"}
+          </button>
+          {hint && (
+            <div style={{ fontSize: 12, lineHeight: 1.35, color: "#f5dfb0" }}>
+              <strong>Hint: {formatAction(board, hint.move)}</strong> — {hint.reason}
+            </div>
+          )}
+
           {gameMode === "vsAI" && (
             <div style={{ display: "flex", flexDirection: "column", gap: 4 }}>
               <span style={{ fontSize: 11, opacity: 0.75 }}>AI plays</span>
@@ -566,8 +1018,115 @@ useEffect(() => {
                   White
                 </button>
               </div>
+              <span style={{ fontSize: 11, opacity: 0.75 }}>Engine</span>
+              <div style={{ display: "grid", gridTemplateColumns: "1fr 1fr", gap: 6 }}>
+                {(Object.keys(AI_ENGINES) as AIEngine[]).map((e) => (
+                  <button
+                    key={e}
+                    style={{
+                      padding: "6px 10px",
+                      width: "100%",
+                      borderRadius: 6,
+                      border: "1px solid #333",
+                      background: aiEngine === e ? "#3a3a3a" : "#262626",
+                      color: "#ddd",
+                    }}
+                    onClick={() => setAIEngine(e)}
+                  >
+                    {AI_ENGINES[e]}
+                  </button>
+                ))}
+              </div>
+              <span style={{ fontSize: 11, opacity: 0.75 }}>Difficulty</span>
+              <div style={{ display: "grid", gridTemplateColumns: "1fr 1fr 1fr", gap: 6 }}>
+                {Object.values(DIFFICULTIES).map((d) => (
+                  <button
+                    key={d.id}
+                    style={{
+                      padding: "6px 4px",
+                      width: "100%",
+                      borderRadius: 6,
+                      border: "1px solid #333",
+                      background: difficulty === d.id ? "#3a3a3a" : "#262626",
+                      color: "#ddd",
+                      fontSize: 11,
+                    }}
+                    onClick={() => setDifficulty(d.id)}
+                  >
+                    {d.name}
+                  </button>
+                ))}
+              </div>
             </div>
           )}
+
+          <div style={{ display: "flex", flexDirection: "column", gap: 4 }}>
+            <span style={{ fontSize: 11, opacity: 0.75 }}>Board (starts a new game)</span>
+            <div style={{ display: "grid", gridTemplateColumns: "1fr 1fr 1fr", gap: 6 }}>
+              {Object.values(SETUPS).map((s) => (
+                <button
+                  key={s.id}
+                  title={s.name}
+                  style={{
+                    padding: "6px 4px",
+                    width: "100%",
+                    borderRadius: 6,
+                    border: "1px solid #333",
+                    background: setup === s.id ? "#3a3a3a" : "#262626",
+                    color: "#ddd",
+                  }}
+                  onClick={() => setSetup(s.id)}
+                >
+                  {s.layout.length}×{s.layout[0].length}
+                </button>
+              ))}
+            </div>
+          </div>
+
+          <div style={{ display: "grid", gridTemplateColumns: "1fr 1fr", gap: 6 }}>
+            <button
+              title={serializePosition(board, shownTurn)}
+              onClick={() => navigator.clipboard?.writeText(serializePosition(board, shownTurn))}
+            >
+              Copy position
+            </button>
+            <button
+              onClick={() => {
+                const text = window.prompt("Paste a position (e.g. from a bug report):");
+                if (!text) return;
+                const err = loadPosition(text);
+                if (err) window.alert(`Could not load position: ${err}`);
+              }}
+            >
+              Load position
+            </button>
+            <button
+              onClick={() => {
+                const url = URL.createObjectURL(new Blob([exportGame()], { type: "text/plain" }));
+                const a = document.createElement("a");
+                a.href = url;
+                a.download = `game-${new Date().toISOString().slice(0, 10)}.txt`;
+                a.click();
+                URL.revokeObjectURL(url);
+              }}
+            >
+              Save game
+            </button>
+            <button onClick={() => gameFileRef.current?.click()}>Open game</button>
+            <input
+              ref={gameFileRef}
+              type="file"
+              accept=".txt,text/plain"
+              style={{ display: "none" }}
+              onChange={async (e) => {
+                const file = e.target.files?.[0];
+                e.target.value = "";
+                if (!file) return;
+                const err = importGame(await file.text());
+                if (err) window.alert(`Could not open game: ${err}`);
+              }}
+            />
+          </div>
         </div>
 
         {selectedPiece ? (
@@ -589,9 +1148,15 @@ useEffect(() => {
 
             <div style={{ marginTop: 8, fontSize: 14 }}>
               Current value (counters ± rays):{" "}
-              <strong>{selected ? fullValueAt(board, selected) : "-"}</strong>
+              <strong>{selected ? rawValueAt(board, selected) : "-"}</strong>
             </div>
 
+            {freeRotation && (
+              <div style={{ marginTop: 6, fontSize: 13, opacity: 0.85 }}>
+                Free re-orientation used — now make your move (Undo takes back the whole turn).
+              </div>
+            )}
+
             {/* Action Toolbar */}
             {selectedIsKing && (
               <div
@@ -611,7 +1176,7 @@ useEffect(() => {
                         style={rotateMode ? BTN_ACTIVE : BTN}
                         onClick={() => {
                           if (!friendlySelected) return;
-                          const cur = (selectedPiece as any)?.arrowDir as AllDir | null;
+                          const cur = selectedPiece?.arrowDir ?? null;
                           if (!rotateMode) {
                             setRotateMode(true);
                             setPreviewDir(cur ? nextCW(cur) : "N");
@@ -707,7 +1272,7 @@ useEffect(() => {
                             );
                             if (animTimer.current) window.clearTimeout(animTimer.current);
                             animTimer.current = window.setTimeout(() => {
-                              actScatter(selected, scatterInfo.l1, scatterInfo.l2);
+                              dispatch({ kind: "scatter", from: selected, base: scatterInfo.base });
                               setAnim(null);
                               setScatterMode(false);
                               setScatterBase(null);
@@ -730,6 +1295,13 @@ useEffect(() => {
               </div>
             )}
 
+            {/* Why the previewed scatter is refused */}
+            {scatterMode && scatterInfo && !scatterInfo.can && scatterInfo.reason && (
+              <div style={{ marginBottom: 8, fontSize: 13, color: "#f4dada" }}>
+                Scatter not allowed: {scatterInfo.reason}
+              </div>
+            )}
+
             {/* Help text */}
             <div style={{ marginTop: 8, fontSize: 13, lineHeight: 1.35 }}>
               {helpLines.map((t, i) => (
@@ -765,246 +1337,239 @@ useEffect(() => {
         </div>
       )}
 
-      {/* Board & overlays */}
-      <div style={{ position: "relative", display: "inline-block" }}>
-        <svg
-          className="board"
-          viewBox={`0 0 ${SQUARE * 8} ${SQUARE * 8}`}
-          style={{ width: "min(92vmin, 100vw)", height: "auto" }}
-        >
-          {/* Squares */}
-          {[...Array(8)].flatMap((_, r) =>
-            [...Array(8)].map((__, c) => {
-              const dark = (r + c) % 2 === 1;
-              const isSel = !!(selected && selected.r === r && selected.c === c);
-              return (
-                <rect
-                  key={`sq-${r}-${c}`}
-                  x={c * SQUARE}
-                  y={r * SQUARE}
-                  width={SQUARE}
-                  height={SQUARE}
-                  className={cn("sq", { dark, sel: isSel })}
-                  onMouseEnter={() => setHover({ r, c })}
-                  onMouseLeave={() => setHover(null)}
-                  onClick={() => onSquareClick(r, c)}
-                />
-              );
-            })
-          )}
+      {/* Board & overlays, with the evaluation bar beside them */}
+      <div style={{ display: "inline-flex", gap: 8, alignItems: "stretch" }}>
+        <div style={{ position: "relative", display: "inline-block" }}>
+          <svg
+            className="board"
+            viewBox={`0 0 ${SQUARE * size.cols} ${SQUARE * size.rows}`}
+            style={{ width: "min(92vmin, 100vw)", height: "auto" }}
+          >
+            {/* Squares */}
+            {[...Array(size.rows)].flatMap((_, r) =>
+              [...Array(size.cols)].map((__, c) => {
+                const dark = (r + c) % 2 === 1;
+                const isSel = !!(selected && selected.r === r && selected.c === c);
+                return (
+                  <rect
+                    key={`sq-${r}-${c}`}
+                    x={c * SQUARE}
+                    y={r * SQUARE}
+                    width={SQUARE}
+                    height={SQUARE}
+                    className={cn("sq", { dark, sel: isSel })}
+                    onMouseEnter={() => setHover({ r, c })}
+                    onMouseLeave={() => setHover(null)}
+                    onClick={() => onSquareClick(r, c)}
+                  />
+                );
+              })
+            )}
 
-          {/* Rays */}
-          <g>
-            {rayLines.map((l, i) => (
-              <RayOverlay key={`ray-${i}`} rays={l.path} selected={l.selected} />
-            ))}
-          </g>
-
-          {/* Scatter bases */}
-          {scatterMode && scatterInfo && scatterInfo.bases.length > 1 &&
-            scatterInfo.bases.map((b, i) => (
-              <rect
-                key={`base-${i}`}
-                x={b.c * SQUARE}
-                y={b.r * SQUARE}
-                width={SQUARE}
-                height={SQUARE}
-                fill="none"
-                stroke={
-                  scatterInfo.base.r === b.r && scatterInfo.base.c === b.c
-                    ? "rgba(0,200,255,0.9)"
-                    : "rgba(0,200,255,0.6)"
-                }
-                strokeDasharray="6 4"
-                strokeWidth={2}
-                onClick={() => setScatterBase(b)}
-              />
-            ))}
-
-          {/* Scatter landings */}
-          {scatterMode && scatterInfo && (
-            <>
-              {[scatterInfo.l1, scatterInfo.l2].map((p, i) => (
+            {/* Rays */}
+            <g>
+              {rayLines.map((l, i) => (
+                <RayOverlay key={`ray-${i}`} rays={l.path} selected={l.selected} size={size} />
+              ))}
+            </g>
+
+            {/* Scatter bases */}
+            {scatterMode && scatterInfo && scatterInfo.bases.length > 1 &&
+              scatterInfo.bases.map((b, i) => (
                 <rect
-                  key={`sc-${i}`}
-                  x={p.c * SQUARE}
-                  y={p.r * SQUARE}
+                  key={`base-${i}`}
+                  x={b.c * SQUARE}
+                  y={b.r * SQUARE}
                   width={SQUARE}
                   height={SQUARE}
-                  fill={scatterInfo.can ? "rgba(0,200,0,0.28)" : "rgba(220,0,0,0.28)"}
-                  stroke={scatterInfo.can ? "rgba(0,200,0,0.9)" : "rgba(220,0,0,0.9)"}
+                  fill="none"
+                  stroke={
+                    scatterInfo.base.r === b.r && scatterInfo.base.c === b.c
+                      ? "rgba(0,200,255,0.9)"
+                      : "rgba(0,200,255,0.6)"
+                  }
+                  strokeDasharray="6 4"
                   strokeWidth={2}
-                  pointerEvents="none"
+                  onClick={() => setScatterBase(b)}
                 />
               ))}
-            </>
-          )}
 
-          {/* Pieces */}
-          {board.map((row, r) =>
-            row.map((p, c) =>
-              p ? (
-                <PieceView
-                  key={`p-${r}-${c}`}
-                  pos={{ r, c }}
-                  piece={p}
-                  highlight={
-                    selected && selected.r === r && selected.c === c ? "selected" : undefined
-                  }
-                  onClick={() => onSquareClick(r, c)}
-                  onMouseEnter={() => setHover({ r, c })}
-                  onMouseLeave={() => setHover(null)}
-                />
-              ) : null
-            )
-          )}
+            {/* Scatter landings */}
+            {scatterMode && scatterInfo && (
+              <>
+                {[scatterInfo.l1, scatterInfo.l2].map((p, i) => (
+                  <rect
+                    key={`sc-${i}`}
+                    x={p.c * SQUARE}
+                    y={p.r * SQUARE}
+                    width={SQUARE}
+                    height={SQUARE}
+                    fill={scatterInfo.can ? "rgba(0,200,0,0.28)" : "rgba(220,0,0,0.28)"}
+                    stroke={scatterInfo.can ? "rgba(0,200,0,0.9)" : "rgba(220,0,0,0.9)"}
+                    strokeWidth={2}
+                    pointerEvents="none"
+                  />
+                ))}
+              </>
+            )}
 
-          {/* Hover full value */}
-          {hover && pieceAt(board, hover) && (
-            <text
-              x={hover.c * SQUARE + SQUARE / 2}
-              y={hover.r * SQUARE + SQUARE / 2 + 6}
-              textAnchor="middle"
-              className="hoverVal"
-              fill={ownerOf(pieceAt(board, hover)!) === "Black" ? "#fff" : "#111"}
-            >
-              {hoverValue}
-            </text>
-          )}
+            {/* Pieces */}
+            {board.map((row, r) =>
+              row.map((p, c) =>
+                p ? (
+                  <PieceView
+                    key={`p-${r}-${c}`}
+                    pos={{ r, c }}
+                    piece={p}
+                    highlight={
+                      selected && selected.r === r && selected.c === c ? "selected" : undefined
+                    }
+                    onClick={() => onSquareClick(r, c)}
+                    onMouseEnter={() => setHover({ r, c })}
+                    onMouseLeave={() => setHover(null)}
+                  />
+                ) : null
+              )
+            )}
 
-          {/* Rotation preview — white arrow */}
-          {rotateMode && selected && selectedIsKing && previewDir && (() => {
-            const cx = selected.c * SQUARE + SQUARE / 2;
-            const cy = selected.r * SQUARE + SQUARE / 2;
-            const angle = dirToAngle(previewDir);
-            return (
-              <g transform={`translate(${cx} ${cy}) rotate(${angle})`}>
-                <path
-                  d="M -10,12 L 0,-14 L 10,12"
-                  fill="none"
-                  stroke="#fff"
-                  strokeWidth={3}
-                  strokeLinecap="round"
-                  strokeLinejoin="round"
-                />
-              </g>
-            );
-          })()}
-
-          {/* Orientation dots — only when it's your turn and your piece */}
-          {selected && selectedIsKing && canOrientNow && friendlySelected && !scatterMode && (() => {
-            const cx = selected.c * SQUARE + SQUARE / 2;
-            const cy = selected.r * SQUARE + SQUARE / 2;
-            const radius = SQUARE * 0.42;
-            const dirs = ["N","NE","E","SE","S","SW","W","NW"] as const;
-
-            return (
-              <g className="orient-dots">
-                {dirs.map((d) => {
-                  const [dr, dc] = DIRS[d];
-                  const x = cx + dc * radius;
-                  const y = cy + dr * radius;
-
-                  const isPreview = previewDir === d;
-                  return (
-                    <g key={d} onClick={(e) => { e.stopPropagation(); handleOrient(d); }} style={{ cursor: "pointer" }}>
-                      <circle
-                        cx={x}
-                        cy={y}
-                        r={isPreview ? 7 : 6}
-                        fill="#fff"
-                        stroke="#000"
-                        strokeWidth={1}
-                      />
-                      {isPreview && (
+            {/* Hover full value */}
+            {hover && pieceAt(board, hover) && (
+              <text
+                x={hover.c * SQUARE + SQUARE / 2}
+                y={hover.r * SQUARE + SQUARE / 2 + 6}
+                textAnchor="middle"
+                className="hoverVal"
+                fill={ownerOf(pieceAt(board, hover)!) === "Black" ? "#fff" : "#111"}
+              >
+                {hoverValue}
+              </text>
+            )}
+
+            {/* Rotation preview — white arrow */}
+            {rotateMode && selected && selectedIsKing && previewDir && (() => {
+              const cx = selected.c * SQUARE + SQUARE / 2;
+              const cy = selected.r * SQUARE + SQUARE / 2;
+              const angle = dirToAngle(previewDir);
+              return (
+                <g transform={`translate(${cx} ${cy}) rotate(${angle})`}>
+                  <path
+                    d="M -10,12 L 0,-14 L 10,12"
+                    fill="none"
+                    stroke="#fff"
+                    strokeWidth={3}
+                    strokeLinecap="round"
+                    strokeLinejoin="round"
+                  />
+                </g>
+              );
+            })()}
+
+            {/* Orientation dots — only when it's your turn and your piece */}
+            {selected && selectedIsKing && canOrientNow && friendlySelected && !scatterMode && (() => {
+              const cx = selected.c * SQUARE + SQUARE / 2;
+              const cy = selected.r * SQUARE + SQUARE / 2;
+              const radius = SQUARE * 0.42;
+              const dirs = ["N","NE","E","SE","S","SW","W","NW"] as const;
+
+              return (
+                <g className="orient-dots">
+                  {dirs.map((d) => {
+                    const [dr, dc] = DIRS[d];
+                    const x = cx + dc * radius;
+                    const y = cy + dr * radius;
+
+                    const isPreview = previewDir === d;
+                    return (
+                      <g key={d} onClick={(e) => { e.stopPropagation(); handleOrient(d); }} style={{ cursor: "pointer" }}>
                         <circle
                           cx={x}
                           cy={y}
-                          r={10}
-                          fill="none"
-                          stroke="#fff"
+                          r={isPreview ? 7 : 6}
+                          fill="#fff"
+                          stroke="#000"
                           strokeWidth={1}
-                          opacity={0.7}
                         />
-                      )}
-                    </g>
-                  );
-                })}
-              </g>
-            );
-          })()}
-
-          {/* GREEN highlights */}
-          {selected && !scatterMode && !rotateMode && (() => {
-            const seen = new Set<string>();
-            return allDestinations.map((m, i) => {
-              const k = `${m.r}-${m.c}`;
-              if (seen.has(k)) return null;
-              seen.add(k);
-              return (
-                <rect
-                  key={`dest-${i}`}
-                  x={m.c * SQUARE}
-                  y={m.r * SQUARE}
-                  width={SQUARE}
-                  height={SQUARE}
-                  fill="rgba(0,200,0,0.25)"
-                  stroke="rgba(0,200,0,0.9)"
-                  strokeWidth={2}
-                  onClick={() => onSquareClick(m.r, m.c)}
-                />
+                        {isPreview && (
+                          <circle
+                            cx={x}
+                            cy={y}
+                            r={10}
+                            fill="none"
+                            stroke="#fff"
+                            strokeWidth={1}
+                            opacity={0.7}
+                          />
+                        )}
+                      </g>
+                    );
+                  })}
+                </g>
               );
-            });
-          })()}
-
-          {/* Move animation */}
-          {anim && anim.kind === "move" && (() => {
-            const from = centerOf(anim.from);
-            const to = centerOf(anim.to);
-            return (
-              <g
-                style={{
-                  transform: `translate(${from.x}px, ${from.y}px)`,
-                  transition: "transform 180ms ease",
-                  ...(animGo ? { transform: `translate(${to.x}px, ${to.y}px)` } : {}),
-                }}
-              >
-                <circle
-                  r={SQUARE * 0.24}
-                  fill={anim.owner === "Black" ? "#111" : "#eee"}
-                  stroke={anim.owner === "Black" ? "#eee" : "#111"}
-                  strokeWidth={2}
-                />
-              </g>
-            );
-          })()}
-
-          {/* Scatter animation */}
-          {anim && anim.kind === "scatter" && (() => {
-            const from = centerOf(anim.from);
-            const t1 = centerOf(anim.l1);
-            const t2 = centerOf(anim.l2);
-            return (
-              <>
-                <g
-                  style={{
-                    transform: `translate(${from.x}px, ${from.y}px)`,
-                    transition: "transform 200ms ease",
-                    ...(animGo ? { transform: `translate(${t1.x}px, ${t1.y}px)` } : {}),
-                  }}
-                >
-                  <circle
-                    r={SQUARE * 0.24}
-                    fill={anim.owner === "Black" ? "#111" : "#eee"}
-                    stroke={anim.owner === "Black" ? "#eee" : "#111"}
+            })()}
+
+            {/* GREEN highlights */}
+            {selected && !scatterMode && !rotateMode && (() => {
+              const seen = new Set<string>();
+              return allDestinations.map((m, i) => {
+                const k = `${m.r}-${m.c}`;
+                if (seen.has(k)) return null;
+                seen.add(k);
+                return (
+                  <rect
+                    key={`dest-${i}`}
+                    x={m.c * SQUARE}
+                    y={m.r * SQUARE}
+                    width={SQUARE}
+                    height={SQUARE}
+                    fill="rgba(0,200,0,0.25)"
+                    stroke="rgba(0,200,0,0.9)"
+                    strokeWidth={2}
+                    onClick={() => onSquareClick(m.r, m.c)}
+                  />
+                );
+              });
+            })()}
+
+            {/* Suggested action, or in a review the better move */}
+            {hint && <HintOverlay board={board} action={hint.move} />}
+            {reviewBetter && <HintOverlay board={board} action={reviewBetter} />}
+
+            {/* Why-illegal feedback */}
+            {illegal && (() => {
+              const { at, message } = illegal;
+              const w = Math.min(SQUARE * size.cols - 8, message.length * 7 + 20);
+              const h = 26;
+              const x = Math.max(4, Math.min(SQUARE * size.cols - w - 4, at.c * SQUARE + SQUARE / 2 - w / 2));
+              const y = at.r === 0 ? SQUARE + 4 : at.r * SQUARE - h - 4;
+              return (
+                <g pointerEvents="none">
+                  <rect
+                    x={at.c * SQUARE}
+                    y={at.r * SQUARE}
+                    width={SQUARE}
+                    height={SQUARE}
+                    fill="rgba(220,0,0,0.22)"
+                    stroke="rgba(220,0,0,0.9)"
                     strokeWidth={2}
                   />
+                  <rect x={x} y={y} width={w} height={h} rx={6} fill="#231f1f" stroke="#a33" />
+                  <text x={x + w / 2} y={y + 17} textAnchor="middle" fontSize={13} fill="#f4dada">
+                    {message}
+                  </text>
                 </g>
+              );
+            })()}
+
+            {/* Move animation */}
+            {anim && anim.kind === "move" && (() => {
+              const from = centerOf(anim.from);
+              const to = centerOf(anim.to);
+              return (
                 <g
                   style={{
                     transform: `translate(${from.x}px, ${from.y}px)`,
-                    transition: "transform 200ms ease",
-                    ...(animGo ? { transform: `translate(${t2.x}px, ${t2.y}px)` } : {}),
+                    transition: "transform 180ms ease",
+                    ...(animGo ? { transform: `translate(${to.x}px, ${to.y}px)` } : {}),
                   }}
                 >
                   <circle
@@ -1014,10 +1579,50 @@ useEffect(() => {
                     strokeWidth={2}
                   />
                 </g>
-              </>
-            );
-          })()}
-        </svg>
+              );
+            })()}
+
+            {/* Scatter animation */}
+            {anim && anim.kind === "scatter" && (() => {
+              const from = centerOf(anim.from);
+              const t1 = centerOf(anim.l1);
+              const t2 = centerOf(anim.l2);
+              return (
+                <>
+                  <g
+                    style={{
+                      transform: `translate(${from.x}px, ${from.y}px)`,
+                      transition: "transform 200ms ease",
+                      ...(animGo ? { transform: `translate(${t1.x}px, ${t1.y}px)` } : {}),
+                    }}
+                  >
+                    <circle
+                      r={SQUARE * 0.24}
+                      fill={anim.owner === "Black" ? "#111" : "#eee"}
+                      stroke={anim.owner === "Black" ? "#eee" : "#111"}
+                      strokeWidth={2}
+                    />
+                  </g>
+                  <g
+                    style={{
+                      transform: `translate(${from.x}px, ${from.y}px)`,
+                      transition: "transform 200ms ease",
+                      ...(animGo ? { transform: `translate(${t2.x}px, ${t2.y}px)` } : {}),
+                    }}
+                  >
+                    <circle
+                      r={SQUARE * 0.24}
+                      fill={anim.owner === "Black" ? "#111" : "#eee"}
+                      stroke={anim.owner === "Black" ? "#eee" : "#111"}
+                      strokeWidth={2}
+                    />
+                  </g>
+                </>
+              );
+            })()}
+          </svg>
+        </div>
+      {showEval && <EvalBar score={evalScore} depth={liveResult?.depth} />}
       </div>
     </div>
   );
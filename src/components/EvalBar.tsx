@@ -0,0 +1,54 @@
+// src/components/EvalBar.tsx
+import { blackShare, formatEval } from "../engine/liveEval";
+
+/**
+ * Vertical evaluation bar: Black's share fills from the bottom (Black's side
+ * of the board), White's from the top, with the score on the leading side.
+ * `score` is from Black's side; null while there is nothing to show yet.
+ */
+export function EvalBar({ score, depth }: { score: number | null; depth?: number }) {
+  const share = score === null ? 0.5 : blackShare(score);
+  const blackAhead = score !== null && score >= 0;
+  return (
+    <div
+      title={score === null ? "Evaluating…" : `${formatEval(score)}${depth ? ` at depth ${depth}` : ""}`}
+      style={{
+        position: "relative",
+        width: 26,
+        background: "#eee",
+        border: "1px solid #2c2c2c",
+        borderRadius: 6,
+        overflow: "hidden",
+        opacity: score === null ? 0.5 : 1,
+      }}
+    >
+      <div
+        style={{
+          position: "absolute",
+          left: 0,
+          right: 0,
+          bottom: 0,
+          height: `${share * 100}%`,
+          background: "#111",
+          transition: "height 300ms ease",
+        }}
+      />
+      {score !== null && (
+        <span
+          style={{
+            position: "absolute",
+            left: 0,
+            right: 0,
+            [blackAhead ? "bottom" : "top"]: 4,
+            textAlign: "center",
+            fontSize: 10,
+            fontWeight: 700,
+            color: blackAhead ? "#eee" : "#111",
+          }}
+        >
+          {formatEval(score)}
+        </span>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,65 @@
+// src/components/EvalGraph.tsx
+import { SCORE_CAP } from "../engine/analysis";
+import type { Judgement } from "../engine/analysis";
+
+const JUDGEMENT_COLOR: Partial<Record<Judgement, string>> = {
+  inaccuracy: "#e6c84f",
+  mistake: "#f08c3c",
+  blunder: "#e04848",
+};
+
+/**
+ * Evaluation across a game (Black's side up), one point per position. Dots mark
+ * the positions reached by graded-down moves; clicking picks a position.
+ */
+export function EvalGraph({
+  evals,
+  judgements,
+  total,
+  current,
+  onSelect,
+  width = 236,
+  height = 90,
+}: {
+  evals: number[];
+  /** Grade of the move into each position (index 1 onwards). */
+  judgements: Judgement[];
+  /** Positions the finished graph will have (so the x scale stays put while analysing). */
+  total: number;
+  current: number | null;
+  onSelect: (position: number) => void;
+  width?: number;
+  height?: number;
+}) {
+  const xOf = (i: number) => (total > 1 ? (i / (total - 1)) * width : width / 2);
+  const yOf = (v: number) => height / 2 - (v / SCORE_CAP) * (height / 2 - 4);
+  const line = evals.map((v, i) => `${xOf(i)},${yOf(v)}`).join(" ");
+  // Black's share dark below the line, White's light above it
+  const area = evals.length ? `${xOf(0)},${height} ${line} ${xOf(evals.length - 1)},${height}` : "";
+
+  return (
+    <svg
+      width={width}
+      height={height}
+      style={{ display: "block", background: "#e8e8e8", borderRadius: 6, cursor: "pointer" }}
+      onClick={(e) => {
+        const x = e.clientX - e.currentTarget.getBoundingClientRect().left;
+        const i = Math.round((x / width) * (total - 1));
+        if (i >= 0 && i < evals.length) onSelect(i);
+      }}
+    >
+      <polygon points={area} fill="#2a2a2a" />
+      <line x1={0} y1={height / 2} x2={width} y2={height / 2} stroke="#888" strokeWidth={1} />
+      <polyline points={line} fill="none" stroke="#555" strokeWidth={1.5} />
+      {judgements.map((j, k) => {
+        const color = JUDGEMENT_COLOR[j];
+        const i = k + 1;
+        if (!color || i >= evals.length) return null;
+        return <circle key={i} cx={xOf(i)} cy={yOf(evals[i])} r={3.5} fill={color} stroke="#111" strokeWidth={0.5} />;
+      })}
+      {current !== null && current < evals.length && (
+        <line x1={xOf(current)} y1={0} x2={xOf(current)} y2={height} stroke="#2f4cff" strokeWidth={2} />
+      )}
+    </svg>
+  );
+}
@@ -0,0 +1,35 @@
+// src/components/GhostBoard.tsx
+import cn from "classnames";
+import { SQUARE } from "../game/types";
+import type { Board } from "../game/rules";
+import { sizeOf } from "../game/rules";
+import type { Action } from "../game/actions";
+import { PieceView } from "./Piece";
+import { HintOverlay } from "./HintOverlay";
+
+/** A small, read-only board for looking ahead, with the move about to be played drawn on it. */
+export function GhostBoard({ board, next, width = 236 }: { board: Board; next?: Action; width?: number }) {
+  const size = sizeOf(board);
+  return (
+    <svg
+      className="board"
+      viewBox={`0 0 ${SQUARE * size.cols} ${SQUARE * size.rows}`}
+      style={{ width, height: "auto", opacity: 0.9, pointerEvents: "none" }}
+    >
+      {board.flatMap((row, r) =>
+        row.map((_, c) => (
+          <rect
+            key={`sq-${r}-${c}`}
+            x={c * SQUARE}
+            y={r * SQUARE}
+            width={SQUARE}
+            height={SQUARE}
+            className={cn("sq", { dark: (r + c) % 2 === 1 })}
+          />
+        ))
+      )}
+      {board.map((row, r) => row.map((p, c) => (p ? <PieceView key={`p-${r}-${c}`} pos={{ r, c }} piece={p} /> : null)))}
+      {next && <HintOverlay board={board} action={next} />}
+    </svg>
+  );
+}
@@ -0,0 +1,115 @@
+// src/components/HintOverlay.tsx
+import { SQUARE, DIRS } from "../game/types";
+import type { Coord } from "../game/types";
+import type { Board } from "../game/rules";
+import { cloneBoard, pieceAt } from "../game/rules";
+import { validateScatter } from "../game/scatter";
+import type { Action } from "../game/actions";
+
+const HINT_COLOR = "rgba(255,190,60,0.95)";
+
+function center(p: Coord) {
+  return { x: (p.c + 0.5) * SQUARE, y: (p.r + 0.5) * SQUARE };
+}
+
+// Straight arrow between two points, stopping short of the target's centre
+function Arrow({ x1, y1, x2, y2 }: { x1: number; y1: number; x2: number; y2: number }) {
+  const len = Math.hypot(x2 - x1, y2 - y1) || 1;
+  const ux = (x2 - x1) / len, uy = (y2 - y1) / len;
+  const tipX = x2 - ux * SQUARE * 0.18, tipY = y2 - uy * SQUARE * 0.18;
+  const head = SQUARE * 0.18;
+  const bx = tipX - ux * head, by = tipY - uy * head;
+  return (
+    <>
+      <line x1={x1} y1={y1} x2={bx} y2={by} stroke={HINT_COLOR} strokeWidth={6} strokeLinecap="round" />
+      <polygon
+        points={`${tipX},${tipY} ${bx - uy * head * 0.6},${by + ux * head * 0.6} ${bx + uy * head * 0.6},${by - ux * head * 0.6}`}
+        fill={HINT_COLOR}
+      />
+    </>
+  );
+}
+
+/**
+ * Draws a suggested action on the board: an arrow for a move or capture, a
+ * curved marker for a combine, the new arrow direction for a rotate (then its
+ * follow-up), and the two landing squares for a scatter.
+ */
+export function HintOverlay({ board, action }: { board: Board; action: Action }) {
+  switch (action.kind) {
+    case "move":
+    case "capture": {
+      const a = center(action.from), b = center(action.to);
+      return (
+        <g pointerEvents="none">
+          <Arrow x1={a.x} y1={a.y} x2={b.x} y2={b.y} />
+        </g>
+      );
+    }
+
+    case "combine": {
+      const a = center(action.from), b = center(action.to);
+      // bow the path sideways so it reads differently from a plain move
+      const mx = (a.x + b.x) / 2 - (b.y - a.y) * 0.45;
+      const my = (a.y + b.y) / 2 + (b.x - a.x) * 0.45;
+      return (
+        <g pointerEvents="none">
+          <path
+            d={`M ${a.x},${a.y} Q ${mx},${my} ${b.x},${b.y}`}
+            fill="none"
+            stroke={HINT_COLOR}
+            strokeWidth={5}
+            strokeDasharray="8 5"
+          />
+          <circle cx={b.x} cy={b.y} r={SQUARE * 0.38} fill="none" stroke={HINT_COLOR} strokeWidth={4} />
+        </g>
+      );
+    }
+
+    case "rotate": {
+      const a = center(action.at);
+      const [dr, dc] = DIRS[action.dir];
+      const reach = SQUARE * 0.75;
+      // the follow-up of a free rotation plays from the rotated board
+      let after: Board | null = null;
+      if (action.then) {
+        after = cloneBoard(board);
+        const p = pieceAt(after, action.at);
+        if (p) after[action.at.r][action.at.c] = { ...p, arrowDir: action.dir };
+      }
+      return (
+        <g pointerEvents="none">
+          <circle cx={a.x} cy={a.y} r={SQUARE * 0.42} fill="none" stroke={HINT_COLOR} strokeWidth={3} />
+          <Arrow x1={a.x} y1={a.y} x2={a.x + dc * reach} y2={a.y + dr * reach} />
+          {after && action.then && <HintOverlay board={after} action={action.then} />}
+        </g>
+      );
+    }
+
+    case "scatter": {
+      const a = center(action.from);
+      const { l1, l2 } = validateScatter(board, action.from, action.base);
+      return (
+        <g pointerEvents="none">
+          {[l1, l2].map((l, i) => {
+            const b = center(l);
+            return (
+              <g key={i}>
+                <line x1={a.x} y1={a.y} x2={b.x} y2={b.y} stroke={HINT_COLOR} strokeWidth={3} strokeDasharray="6 4" />
+                <rect
+                  x={l.c * SQUARE + 3}
+                  y={l.r * SQUARE + 3}
+                  width={SQUARE - 6}
+                  height={SQUARE - 6}
+                  fill="rgba(255,190,60,0.22)"
+                  stroke={HINT_COLOR}
+                  strokeWidth={3}
+                />
+              </g>
+            );
+          })}
+        </g>
+      );
+    }
+  }
+}
@@ -1,14 +1,16 @@
 // src/components/RayOverlay.tsx
-import type { Coord } from "../game/types";
+import type { BoardSize, Coord } from "../game/types";
 import { SQUARE } from "../game/types";
 
 /** Draws a continuous line through ray squares. */
 export function RayOverlay({
   rays,
   selected,
+  size,
 }: {
   rays: Coord[];
   selected: boolean;
+  size: BoardSize;
 }) {
   if (!rays || rays.length === 0) return null;
 
@@ -24,8 +26,8 @@ export function RayOverlay({
         top: 0,
         left: 0,
         pointerEvents: "none",
-        width: SQUARE * 8,
-        height: SQUARE * 8,
+        width: SQUARE * size.cols,
+        height: SQUARE * size.rows,
       }}
     >
       <polyline
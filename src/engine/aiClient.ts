@@ -0,0 +1,97 @@
+// src/engine/aiClient.ts
+import type { Board, Player } from "../game/rules";
+import { hashKey, hashPosition } from "../game/zobrist";
+import type { AIRequest, AIResponse } from "./aiTypes";
+import type { GameHistory, SearchResult } from "./search";
+import type { EngineSpec } from "./engines";
+import { tablebaseResult } from "./tablebase";
+
+/**
+ * Runs searches in the engine worker, one at a time.
+ *
+ * `think` resolves with the search result, or with null when the search was
+ * cancelled (by `cancel`, `dispose` or a newer `think`). A search can't be
+ * interrupted from outside, so cancelling terminates the busy worker and the
+ * next request starts a fresh one. Positions covered by the tablebase this thread
+ * has loaded (see `loadTablebase`) are answered here without a worker, so workers
+ * never load the tables.
+ */
+export type AIClient = {
+  think(
+    board: Board,
+    turn: Player,
+    spec: EngineSpec,
+    onProgress?: (progress: SearchResult, key: string) => void,
+    game?: GameHistory
+  ): { key: string; done: Promise<SearchResult | null> };
+  cancel(): void;
+  dispose(): void;
+};
+
+type Pending = {
+  id: number;
+  resolve: (r: SearchResult | null) => void;
+  onProgress?: (progress: SearchResult, key: string) => void;
+};
+
+/** A fresh engine worker (worker.ts). */
+export function spawnEngineWorker(): Worker {
+  return new Worker(new URL("./worker.ts", import.meta.url), { type: "module" });
+}
+
+export function createAIClient(): AIClient {
+  let worker: Worker | null = null;
+  let pending: Pending | null = null;
+  let nextId = 1;
+
+  function onMessage(e: MessageEvent<AIResponse>) {
+    const msg = e.data;
+    if (!pending || msg.id !== pending.id) return; // reply to a cancelled request
+    if (msg.type === "progress") {
+      pending.onProgress?.(msg.progress, msg.key);
+    } else if (msg.type === "result") {
+      const { resolve } = pending;
+      pending = null;
+      resolve(msg.result);
+    }
+  }
+
+  function ensureWorker(): Worker {
+    if (!worker) {
+      worker = spawnEngineWorker();
+      worker.addEventListener("message", onMessage);
+    }
+    return worker;
+  }
+
+  function cancel() {
+    if (!pending) return;
+    const { resolve } = pending;
+    pending = null;
+    worker?.terminate();
+    worker = null;
+    resolve(null);
+  }
+
+  return {
+    think(board, turn, spec, onProgress, game) {
+      cancel();
+      const id = nextId++;
+      const key = hashKey(hashPosition(board, turn));
+      const known = spec.tablebase ? tablebaseResult(board, turn, game) : null;
+      if (known) return { key, done: Promise.resolve(known) };
+      const done = new Promise<SearchResult | null>((resolve) => {
+        pending = { id, resolve, onProgress };
+      });
+      const req: AIRequest = { type: "search", id, key, board, turn, spec, game };
+      ensureWorker().postMessage(req);
+      return { key, done };
+    },
+    cancel,
+    dispose() {
+      cancel();
+      worker?.terminate();
+      worker = null;
+    },
+  };
+}
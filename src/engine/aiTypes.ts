@@ -1,6 +1,28 @@
 // src/engine/aiTypes.ts
-import type { Coord } from "../game/types";
+import type { Action } from "../game/actions";
+import type { Board, Player } from "../game/rules";
+import type { Position } from "../game/position";
+import type { GameHistory, SearchResult } from "./search";
+import type { EngineSpec } from "./engines";
+import type { GameAnalysis } from "./analysis";
+import type { Tablebase } from "./tablebase";
 
-export type AIMove =
-  | { kind: "move"; from: Coord; to: Coord; isCapture: boolean }
-  | { kind: "combine"; from: Coord; to: Coord };
+/** A legal action annotated with the engine's score for it (higher = better for the mover). */
+export type AIMove = Action & { score: number };
+
+/**
+ * Worker protocol. Every search request carries an `id` and the `key` (hashKey) of
+ * the position it was asked about; both come back on every reply, so a reply that
+ * arrives after the game has moved on can be recognised and dropped. A game
+ * analysis reports the partial analysis after every graded move, and carries the
+ * page's tablebase for the board, so the worker never loads one itself.
+ */
+export type AIRequest =
+  | { type: "search"; id: number; key: string; board: Board; turn: Player; spec: EngineSpec; game?: GameHistory }
+  | { type: "analyze"; id: number; start: Position; moves: Action[]; spec: EngineSpec; tablebase: Tablebase | null };
+
+export type AIResponse =
+  | { type: "progress"; id: number; key: string; progress: SearchResult }
+  | { type: "result"; id: number; key: string; result: SearchResult }
+  | { type: "analysis-progress"; id: number; partial: GameAnalysis; total: number }
+  | { type: "analysis"; id: number; analysis: GameAnalysis };
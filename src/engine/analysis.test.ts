@@ -0,0 +1,54 @@
+import { describe, expect, it } from "vitest";
+import { position } from "../test/helpers";
+import { parseAction } from "../game/notation";
+import type { Action } from "../game/actions";
+import type { Position } from "../game/position";
+import { applyAction, initialState } from "../game/reducer";
+import { JUDGEMENT_DROPS, SCORE_CAP, analyzeGame, judge } from "./analysis";
+import type { EngineSpec } from "./engines";
+
+const SPEC: EngineSpec = { kind: "search", limits: { maxDepth: 3, timeMs: 5000 } };
+
+// Black can take White's only key at once (b1xc2)
+const WINNING = position("4/1w2/2W1/1B1b b");
+
+function line(start: Position, texts: string[]): Action[] {
+  let s = initialState(start.board, start.turn);
+  return texts.map((text) => {
+    const a = parseAction(s.board, s.turn, text);
+    const r = "error" in a ? a : applyAction(s, a);
+    if ("error" in a || "error" in r) throw new Error(`${text} does not apply`);
+    s = r.state;
+    return a;
+  });
+}
+
+describe("analyzeGame", () => {
+  it("grades drops against the thresholds", () => {
+    expect(judge(0)).toBe("best");
+    expect(judge(0.1)).toBe("good");
+    expect(judge(JUDGEMENT_DROPS.inaccuracy)).toBe("inaccuracy");
+    expect(judge(JUDGEMENT_DROPS.mistake)).toBe("mistake");
+    expect(judge(JUDGEMENT_DROPS.blunder)).toBe("blunder");
+  });
+
+  it("calls the winning capture best and ends the graph at the cap", () => {
+    const a = analyzeGame(WINNING, line(WINNING, ["b1xc2"]), SPEC);
+    expect(a.plies.map((p) => p.judgement)).toEqual(["best"]);
+    expect(a.evals).toEqual([SCORE_CAP, SCORE_CAP]);
+  });
+
+  it("calls a move that lets the win go a blunder", () => {
+    const a = analyzeGame(WINNING, line(WINNING, ["d1-d2"]), SPEC);
+    const [ply] = a.plies;
+    expect(ply.judgement).toBe("blunder");
+    expect(ply.bestScore).toBe(SCORE_CAP);
+    expect(ply.drop).toBe(ply.bestScore - ply.playedScore);
+    expect(a.evals).toHaveLength(2);
+  });
+
+  it("refuses an illegal move", () => {
+    const move: Action = { kind: "move", from: { r: 0, c: 1 }, to: { r: 0, c: 0 } };
+    expect(() => analyzeGame(WINNING, [move], SPEC)).toThrow(/^Move 1 is illegal: /);
+  });
+});
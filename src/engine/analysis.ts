@@ -0,0 +1,124 @@
+// src/engine/analysis.ts
+import type { Player } from "../game/rules";
+import type { Action } from "../game/actions";
+import { formatAction } from "../game/notation";
+import { applyAction, initialState } from "../game/reducer";
+import type { GameState } from "../game/reducer";
+import type { Position } from "../game/position";
+import { runEngine } from "./engines";
+import type { EngineSpec } from "./engines";
+import { WIN } from "./search";
+
+/**
+ * Post-game analysis: replay a game, search every position, and grade each move
+ * by how much evaluation it gave up against the engine's choice.
+ *
+ * A move's value is the search score of the position it led to (from the
+ * mover's side); the best move's value is the score of the position it was
+ * played from. Scores are capped at ±SCORE_CAP before comparing, so missing or
+ * walking into a forced win counts as a large drop without swamping the graph.
+ */
+export type Judgement = "best" | "good" | "inaccuracy" | "mistake" | "blunder";
+
+export type PlyAnalysis = {
+  /** Index into the game's moves. */
+  ply: number;
+  turn: Player;
+  move: Action;
+  /** The engine's choice here, and the scores (mover's side, capped) of both moves. */
+  best: Action | null;
+  bestScore: number;
+  playedScore: number;
+  /** bestScore − playedScore, never negative. */
+  drop: number;
+  judgement: Judgement;
+};
+
+export type GameAnalysis = {
+  plies: PlyAnalysis[];
+  /** Score of every position from start to end, from Black's side, capped. */
+  evals: number[];
+};
+
+/** Evaluation units: a single counter is worth about 1, a key about 6. */
+export const SCORE_CAP = 12;
+
+/** Smallest drop for each grade. */
+export const JUDGEMENT_DROPS: Record<Exclude<Judgement, "best" | "good">, number> = {
+  inaccuracy: 0.5,
+  mistake: 1.5,
+  blunder: 3,
+};
+
+export const ANALYSIS_SPEC: EngineSpec = { kind: "search", limits: { timeMs: 400 }, tablebase: true };
+
+function cap(score: number): number {
+  return Math.max(-SCORE_CAP, Math.min(SCORE_CAP, score));
+}
+
+export function judge(drop: number): Judgement {
+  if (drop >= JUDGEMENT_DROPS.blunder) return "blunder";
+  if (drop >= JUDGEMENT_DROPS.mistake) return "mistake";
+  if (drop >= JUDGEMENT_DROPS.inaccuracy) return "inaccuracy";
+  return drop > 0 ? "good" : "best";
+}
+
+/** Side to move's score: exact once the game is over, otherwise from `spec`. */
+function scorePosition(s: GameState, spec: EngineSpec): { score: number; best: Action | null } {
+  if (s.result) {
+    // the winner stays "to move" in the final position
+    const score = s.result.kind === "draw" ? 0 : s.result.winner === s.turn ? WIN : -WIN;
+    return { score, best: null };
+  }
+  const r = runEngine(spec, s.board, s.turn, undefined, s);
+  return { score: r.score, best: r.move };
+}
+
+/**
+ * Analyse `moves` played from `start`. `onPly` gets the analysis so far each
+ * time a move's grade is known (after the search of the position it led to).
+ * Throws if a move is illegal.
+ */
+export function analyzeGame(
+  start: Position,
+  moves: Action[],
+  spec: EngineSpec = ANALYSIS_SPEC,
+  onPly?: (partial: GameAnalysis, total: number) => void
+): GameAnalysis {
+  const states = [initialState(start.board, start.turn)];
+  for (const [i, move] of moves.entries()) {
+    const next = applyAction(states[i], move);
+    if ("error" in next) throw new Error(`Move ${i + 1} is illegal: ${next.error}`);
+    states.push(next.state);
+  }
+
+  const evals: number[] = [];
+  const plies: PlyAnalysis[] = [];
+  let here = scorePosition(states[0], spec);
+  evals.push(states[0].turn === "Black" ? cap(here.score) : -cap(here.score));
+  for (let i = 0; i < moves.length; i++) {
+    const s = states[i], after = states[i + 1];
+    const next = scorePosition(after, spec);
+    evals.push(after.turn === "Black" ? cap(next.score) : -cap(next.score));
+
+    const move = moves[i];
+    const bestScore = cap(here.score);
+    const playedScore = cap(after.turn === s.turn ? next.score : -next.score);
+    const same = !!here.best && formatAction(s.board, here.best) === formatAction(s.board, move);
+    const drop = same ? 0 : Math.max(0, bestScore - playedScore);
+    const ply: PlyAnalysis = {
+      ply: i,
+      turn: s.turn,
+      move,
+      best: here.best,
+      bestScore,
+      playedScore: same ? bestScore : playedScore,
+      drop,
+      judgement: judge(drop),
+    };
+    plies.push(ply);
+    onPly?.({ plies: [...plies], evals: [...evals] }, moves.length);
+    here = next;
+  }
+  return { plies, evals };
+}
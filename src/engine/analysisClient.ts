@@ -0,0 +1,63 @@
+// src/engine/analysisClient.ts
+import type { Action } from "../game/actions";
+import type { Position } from "../game/position";
+import type { AIRequest, AIResponse } from "./aiTypes";
+import { spawnEngineWorker } from "./aiClient";
+import { ANALYSIS_SPEC } from "./analysis";
+import type { GameAnalysis } from "./analysis";
+import { tablebaseFor } from "./tablebase";
+
+/**
+ * Runs game analyses in an engine worker of their own, so the AI and hints
+ * keep theirs. Like the AI client, `cancel` terminates the worker and resolves
+ * the running analysis with null. The worker gets a copy of the tablebase this
+ * thread has loaded for the board (see `loadTablebase`).
+ */
+export type AnalysisClient = {
+  analyze(
+    start: Position,
+    moves: Action[],
+    onProgress?: (partial: GameAnalysis, total: number) => void
+  ): Promise<GameAnalysis | null>;
+  cancel(): void;
+};
+
+export function createAnalysisClient(): AnalysisClient {
+  let worker: Worker | null = null;
+  let finish: ((a: GameAnalysis | null) => void) | null = null;
+  let nextId = 1;
+
+  function cancel() {
+    worker?.terminate();
+    worker = null;
+    finish?.(null);
+    finish = null;
+  }
+
+  return {
+    analyze(start, moves, onProgress) {
+      cancel();
+      const id = nextId++;
+      const w = (worker = spawnEngineWorker());
+      w.addEventListener("message", (e: MessageEvent<AIResponse>) => {
+        const msg = e.data;
+        if (msg.id !== id) return;
+        if (msg.type === "analysis-progress") onProgress?.(msg.partial, msg.total);
+        if (msg.type === "analysis") {
+          finish?.(msg.analysis);
+          finish = null;
+          w.terminate();
+          worker = null;
+        }
+      });
+      const done = new Promise<GameAnalysis | null>((resolve) => {
+        finish = resolve;
+      });
+      const tablebase = ANALYSIS_SPEC.tablebase ? tablebaseFor(start.board) : null;
+      const req: AIRequest = { type: "analyze", id, start, moves, spec: ANALYSIS_SPEC, tablebase };
+      w.postMessage(req);
+      return done;
+    },
+    cancel,
+  };
+}
@@ -0,0 +1,74 @@
+import { describe, expect, it } from "vitest";
+import { position } from "../test/helpers";
+import { formatAction, parseAction } from "../game/notation";
+import type { Position } from "../game/position";
+import { applyAction, initialState } from "../game/reducer";
+import { SETUPS, initialBoard } from "../game/setupBoard";
+import type { SetupId } from "../game/setupBoard";
+import { addBookMove, addGame, bookKey, bookMoves, pickBookMove, pruneBook } from "./book";
+import type { OpeningBook } from "./book";
+import { OPENING_BOOK } from "./bookData";
+
+const KEYS = position("W3/4/4/3B b");
+const START_KEY = bookKey(KEYS.board, KEYS.turn);
+
+// the position after `text` from KEYS
+function after(text: string): Position {
+  const a = parseAction(KEYS.board, KEYS.turn, text);
+  const r = "error" in a ? a : applyAction(initialState(KEYS.board, KEYS.turn), a);
+  if ("error" in r) throw new Error(r.error);
+  return { board: r.state.board, turn: r.state.turn };
+}
+
+describe("opening book", () => {
+  it("credits each move with the result its side got", () => {
+    const book: OpeningBook = {};
+    const move = parseAction(KEYS.board, KEYS.turn, "d1-c1");
+    if ("error" in move) throw new Error(move.error);
+    addGame(book, KEYS, [move], { kind: "win", winner: "White", reason: "keys-captured" }, 8);
+    addGame(book, KEYS, [move], { kind: "draw", reason: "repetition" }, 8);
+    addGame(book, KEYS, [move], { kind: "win", winner: "Black", reason: "keys-captured" }, 8);
+    expect(book[START_KEY]).toEqual([{ move: "d1-c1", weight: 1.5 }]);
+  });
+
+  it("skips moves that don't fit the board and picks by weight", () => {
+    const book: OpeningBook = {
+      [START_KEY]: [
+        { move: "d1-c1", weight: 1 },
+        { move: "a1-a2", weight: 9 },
+      ],
+    };
+    const d2 = parseAction(KEYS.board, KEYS.turn, "d1-d2");
+    if ("error" in d2) throw new Error(d2.error);
+    addBookMove(book, KEYS.board, KEYS.turn, d2, 3);
+    const listed = bookMoves(book, KEYS.board, KEYS.turn);
+    expect(listed.map((m) => [formatAction(KEYS.board, m.action), m.weight])).toEqual([
+      ["d1-d2", 3],
+      ["d1-c1", 1],
+    ]);
+    expect(formatAction(KEYS.board, pickBookMove(book, KEYS.board, KEYS.turn, () => 0.5)!)).toBe("d1-d2");
+    expect(formatAction(KEYS.board, pickBookMove(book, KEYS.board, KEYS.turn, () => 0.9)!)).toBe("d1-c1");
+  });
+
+  it("prunes light moves and the positions only they led to", () => {
+    const c1 = after("d1-c1");
+    const d2 = after("d1-d2");
+    const book: OpeningBook = {
+      [START_KEY]: [
+        { move: "d1-c1", weight: 2 },
+        { move: "d1-d2", weight: 0.5 },
+      ],
+      [bookKey(c1.board, c1.turn)]: [{ move: "a4-b4", weight: 2 }],
+      [bookKey(d2.board, d2.turn)]: [{ move: "a4-b4", weight: 2 }],
+    };
+    expect(pruneBook(book, 1, [KEYS])).toEqual({
+      [START_KEY]: [{ move: "d1-c1", weight: 2 }],
+      [bookKey(c1.board, c1.turn)]: [{ move: "a4-b4", weight: 2 }],
+    });
+  });
+
+  it("ships only positions reachable from a setup's start", () => {
+    const starts = (Object.keys(SETUPS) as SetupId[]).map((id): Position => ({ board: initialBoard(id), turn: "Black" }));
+    expect(Object.keys(pruneBook(OPENING_BOOK, 0, starts))).toHaveLength(Object.keys(OPENING_BOOK).length);
+  });
+});
@@ -0,0 +1,166 @@
+// src/engine/book.ts
+import type { Board, Player } from "../game/rules";
+import type { Action } from "../game/actions";
+import { formatAction, parseAction } from "../game/notation";
+import { applyAction, initialState } from "../game/reducer";
+import type { Position } from "../game/position";
+import type { GameResult } from "../game/result";
+import { hashKey, hashPosition } from "../game/zobrist";
+import { searchBest } from "./search";
+import type { SearchLimits } from "./search";
+
+/**
+ * Opening book: for each position (keyed by `hashKey` of its Zobrist hash) the
+ * candidate moves in notation, each with a weight. The AI picks among them at
+ * random in proportion to weight, so repeated games start differently.
+ *
+ * Moves are stored as text and re-parsed against the actual board when probed,
+ * so an entry that doesn't fit (a hash collision, or a book built for other
+ * rules) is skipped rather than played. The book in use is OPENING_BOOK
+ * (bookData.ts), written by scripts/book.ts.
+ */
+export type BookMove = { move: string; weight: number };
+
+export type OpeningBook = Record<string, BookMove[]>;
+
+export function bookKey(board: Board, turn: Player): string {
+  return hashKey(hashPosition(board, turn));
+}
+
+/** The book's legal candidates for this position, heaviest first. */
+export function bookMoves(book: OpeningBook, board: Board, turn: Player): { action: Action; weight: number }[] {
+  const out: { action: Action; weight: number }[] = [];
+  for (const { move, weight } of book[bookKey(board, turn)] ?? []) {
+    const a = parseAction(board, turn, move);
+    if (!("error" in a) && weight > 0) out.push({ action: a, weight });
+  }
+  return out.sort((x, y) => y.weight - x.weight);
+}
+
+/** A weighted random book move for this position, or null when out of book. */
+export function pickBookMove(
+  book: OpeningBook,
+  board: Board,
+  turn: Player,
+  rand: () => number = Math.random
+): Action | null {
+  const moves = bookMoves(book, board, turn);
+  let x = rand() * moves.reduce((sum, m) => sum + m.weight, 0);
+  for (const m of moves) {
+    x -= m.weight;
+    if (x < 0) return m.action;
+  }
+  return moves[0]?.action ?? null;
+}
+
+export function addBookMove(book: OpeningBook, board: Board, turn: Player, action: Action, weight: number): void {
+  const key = bookKey(board, turn);
+  const move = formatAction(board, action);
+  const entry = (book[key] ??= []);
+  const found = entry.find((m) => m.move === move);
+  if (found) found.weight += weight;
+  else entry.push({ move, weight });
+}
+
+/**
+ * Credit the first `plies` moves of a finished game: each move gets the score
+ * its side ended up with (1 win, ½ draw, 0 loss), so moves from won games
+ * collect weight and moves only ever seen in lost games collect none.
+ */
+export function addGame(
+  book: OpeningBook,
+  start: Position,
+  moves: Action[],
+  result: GameResult | null,
+  plies: number
+): void {
+  let s = initialState(start.board, start.turn);
+  for (const action of moves.slice(0, plies)) {
+    const score = !result || result.kind === "draw" ? 0.5 : result.winner === s.turn ? 1 : 0;
+    addBookMove(book, s.board, s.turn, action, score);
+    const next = applyAction(s, action);
+    if ("error" in next) return;
+    s = next.state;
+  }
+}
+
+/**
+ * Walk the book from `start` for `plies` plies and give the move a (deeper)
+ * search prefers in each position `weight` more, adding it if it was missing.
+ */
+export function addSearchMoves(
+  book: OpeningBook,
+  start: Position,
+  plies: number,
+  limits: SearchLimits,
+  weight: number,
+  onPosition?: (done: number) => void
+): void {
+  let frontier = [initialState(start.board, start.turn)];
+  const visited = new Set<string>();
+  for (let ply = 0; ply < plies && frontier.length; ply++) {
+    const next = [];
+    for (const s of frontier) {
+      const key = bookKey(s.board, s.turn);
+      if (visited.has(key) || s.result) continue;
+      visited.add(key);
+      const known = bookMoves(book, s.board, s.turn).map((m) => m.action);
+      const best = searchBest(s.board, s.turn, limits).move;
+      if (best) addBookMove(book, s.board, s.turn, best, weight);
+      onPosition?.(visited.size);
+      for (const a of known) {
+        const r = applyAction(s, a);
+        if (!("error" in r)) next.push(r.state);
+      }
+    }
+    frontier = next;
+  }
+}
+
+/**
+ * Drop moves lighter than `minWeight`, then keep only the positions the
+ * remaining moves reach from one of `starts` (a position whose moves were all
+ * dropped can strand the ones after it).
+ */
+export function pruneBook(book: OpeningBook, minWeight: number, starts: Position[]): OpeningBook {
+  const kept: OpeningBook = {};
+  for (const [key, moves] of Object.entries(book)) {
+    const heavy = moves.filter((m) => m.weight >= minWeight).sort((a, b) => b.weight - a.weight);
+    if (heavy.length) kept[key] = heavy;
+  }
+  const out: OpeningBook = {};
+  let frontier = starts.map((p) => initialState(p.board, p.turn));
+  while (frontier.length) {
+    const next = [];
+    for (const s of frontier) {
+      const key = bookKey(s.board, s.turn);
+      if (out[key] || !kept[key] || s.result) continue;
+      out[key] = kept[key];
+      for (const { action } of bookMoves(kept, s.board, s.turn)) {
+        const r = applyAction(s, action);
+        if (!("error" in r)) next.push(r.state);
+      }
+    }
+    frontier = next;
+  }
+  return out;
+}
+
+/** Source of a bookData.ts module exporting `book` as OPENING_BOOK. */
+export function formatBookModule(book: OpeningBook, note: string): string {
+  const lines = Object.entries(book).map(([key, moves]) => {
+    const list = moves.map((m) => `{ move: "${m.move}", weight: ${Number(m.weight.toFixed(2))} }`).join(", ");
+    return `  "${key}": [${list}],`;
+  });
+  return [
+    "// src/engine/bookData.ts",
+    'import type { OpeningBook } from "./book";',
+    "",
+    "// The AI's opening book. `npm run book` rewrites this file.",
+    `// ${note}`,
+    "export const OPENING_BOOK: OpeningBook = {",
+    ...lines,
+    "};",
+    "",
+  ].join("\n");
+}
@@ -0,0 +1,76 @@
+// src/engine/bookData.ts
+import type { OpeningBook } from "./book";
+
+// The AI's opening book. `npm run book` rewrites this file.
+// Built 2026-10-18 from 30 games per setup (standard, quick), 8 plies deep: 69 positions.
+export const OPENING_BOOK: OpeningBook = {
+  "b3176276b468369a": [{ move: "c2+d3", weight: 12.5 }, { move: "b2+b3", weight: 4.5 }, { move: "f2+f3", weight: 3.5 }],
+  "7f678f305eb8c670": [{ move: "a2+b3", weight: 16 }, { move: "f2+e3", weight: 7 }],
+  "be16e24729985e68": [{ move: "a6+b5", weight: 2.5 }],
+  "c7abec98fd2e8104": [{ move: "c7+c6", weight: 3.5 }, { move: "g7+g6", weight: 1 }, { move: "e6+f5", weight: 1 }],
+  "8bbe3f62c619702b": [{ move: "f7+e6", weight: 4.5 }, { move: "g7+g6", weight: 1 }],
+  "2774654ad0736424": [{ move: "f5+e4", weight: 6 }],
+  "c1ebb8e76817701c": [{ move: "a5+b4", weight: 3 }],
+  "4960cefd475792e2": [{ move: "a2+b3", weight: 5.5 }],
+  "e2e1d354c9ecdd31": [{ move: "c2+d3", weight: 4 }],
+  "0fd60b6e19ce2a53": [{ move: "f2+f3", weight: 2 }],
+  "724be9a9e0a70cd6": [{ move: "e2+d3", weight: 2.5 }, { move: "a2+b3", weight: 1 }],
+  "43c3d89422f9db7c": [{ move: "b2+b3", weight: 1 }],
+  "de81b381f6cd18d9": [{ move: "b3xb4", weight: 15 }, { move: "d1+c2", weight: 1 }],
+  "41c53f5c23f7452b": [{ move: "e3xe4", weight: 7 }, { move: "c1+d2", weight: 1 }],
+  "7ea5f33dd88458dc": [{ move: "c7+c6", weight: 2.5 }],
+  "efe05365541cb5c3": [{ move: "b8+b7", weight: 3 }],
+  "377f567a6bbf6ce2": [{ move: "f7+e6", weight: 3 }],
+  "6f948be823d7671c": [{ move: "c7+c6", weight: 1.5 }, { move: "a6+b5", weight: 1 }],
+  "458ed4697f74c6e8": [{ move: "g7+g6", weight: 1 }, { move: "c7+c6", weight: 1 }, { move: "a6+b5", weight: 1 }],
+  "2ac786f79938749b": [{ move: "d6+d5", weight: 4 }, { move: "e4xe3", weight: 1 }, { move: "e4xc2", weight: 1 }],
+  "6f8e828e443cb141": [{ move: "c6+c5", weight: 2 }, { move: "b4xd2", weight: 1 }],
+  "5befccf1ec4604e9": [{ move: "d1+d2", weight: 2 }],
+  "fdc05ab824731f93": [{ move: "g2+f3", weight: 2 }, { move: "e1+e2", weight: 1 }],
+  "ce8a80b14d01101f": [{ move: "b3xb5", weight: 1 }, { move: "e2+d3", weight: 1 }],
+  "4adeb42417153b29": [{ move: "b2+b3", weight: 1.5 }, { move: "a2+b3", weight: 1 }, { move: "d3-e4", weight: 1 }],
+  "8df3339f9b946dbf": [{ move: "g1+g2", weight: 2 }],
+  "60c4eba54bb69add": [{ move: "e2+d3", weight: 1 }],
+  "471f850840650437": [{ move: "b4@E", weight: 6 }, { move: "d1+d2", weight: 3 }],
+  "df7dbac16c9074b3": [{ move: "b4xc5", weight: 7 }],
+  "f74b6eeec84a9705": [{ move: "b4xc5", weight: 1 }],
+  "ea4969ee29ed80d4": [{ move: "c1+c2", weight: 3 }, { move: "e4@W", weight: 2 }],
+  "6081e729d0f9ca7b": [{ move: "e4xd5", weight: 1 }],
+  "ec0b94e44c7c2e4f": [{ move: "b8+b7", weight: 1 }],
+  "2eb05ce280adc0f4": [{ move: "d7+e6", weight: 2 }, { move: "g7+g6", weight: 1 }],
+  "7debf5c7693199ae": [{ move: "d7+e6", weight: 1 }],
+  "2df21f92ae0d7ad2": [{ move: "b8+b7", weight: 2 }],
+  "d355e2f08e717bd5": [{ move: "c7+c6", weight: 1 }],
+  "3e623aca5e538cb7": [{ move: "g7+g6", weight: 1.5 }],
+  "7d1b89e488c6f117": [{ move: "a6+b5", weight: 3 }],
+  "3776514956bef326": [{ move: "d8+d7", weight: 1 }],
+  "48896b39d821400e": [{ move: "c7+c6", weight: 1 }, { move: "a6+b5", weight: 1 }],
+  "b30657ea469e49f7": [{ move: "c5-c4", weight: 3 }],
+  "4fb0d6bcf988fdef": [{ move: "e4xe3", weight: 2 }, { move: "d5-e5", weight: 1 }],
+  "de993903ce9d9e3f": [{ move: "e3xd2", weight: 2 }],
+  "dd01744282a0fd46": [{ move: "b4xb3", weight: 2 }, { move: "c5-b5", weight: 1 }],
+  "25f7c6bd79210d8d": [{ move: "d5-d4", weight: 1 }],
+  "fe2b9d393c13841f": [{ move: "d3@N;d3~d6(d7,d8)", weight: 1 }],
+  "33a7d1fefa96d372": [{ move: "h3+g4", weight: 2 }],
+  "60fc78db130a8a28": [{ move: "f2+f3", weight: 1 }],
+  "3fd2164fde62d082": [{ move: "b5-c5", weight: 2 }],
+  "f61fdd3cbab327e0": [{ move: "d3-e4", weight: 1.5 }],
+  "8a6da55ee6093d9d": [{ move: "d3-e4", weight: 2 }],
+  "5aae52b68fe3838a": [{ move: "d1+d2", weight: 1 }],
+  "6dc354f5ece31c3b": [{ move: "e2+d3", weight: 2 }],
+  "08943aee76fe1c4a": [{ move: "b4-b5", weight: 3 }, { move: "b4-c5", weight: 2 }],
+  "ba0aea8a0c20fdc7": [{ move: "b4xc5", weight: 4 }],
+  "432c5b00c1cbdbe6": [{ move: "f1+f2", weight: 4 }, { move: "c5@S", weight: 3 }],
+  "46319e20cb413f9a": [{ move: "e4xd5", weight: 4 }],
+  "e66cdceec3d560d6": [{ move: "h7+g6", weight: 3 }],
+  "cd1311804b4b8431": [{ move: "d7+c7", weight: 2 }],
+  "8bb73851fb18efef": [{ move: "e6xc4", weight: 1.5 }],
+  "f7c54033a7a2f592": [{ move: "d8+d7", weight: 2 }, { move: "h7+g6", weight: 1 }],
+  "701c36b42f9377f1": [{ move: "a6+b5", weight: 1 }, { move: "e8+d7", weight: 1 }],
+  "127b13db700930bb": [{ move: "a6+a5", weight: 3 }],
+  "bb94f2cd9c65454b": [{ move: "a6+a5", weight: 1 }],
+  "bbee6948ae2d174b": [{ move: "e3xd2", weight: 3 }],
+  "251e96180c605336": [{ move: "a6+a5", weight: 1 }, { move: "d2@N", weight: 1 }],
+  "2dce05ca43915d51": [{ move: "c6+d6", weight: 1 }],
+  "34d5441b169b2c30": [{ move: "b3xc2", weight: 2 }, { move: "c5-b5", weight: 1 }],
+};
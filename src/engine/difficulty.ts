@@ -0,0 +1,78 @@
+// src/engine/difficulty.ts
+import type { SearchLimits } from "./search";
+import type { MctsLimits } from "./mcts";
+import type { EngineSpec } from "./engines";
+
+/**
+ * Named AI strengths for vs-AI games, for each engine the UI offers.
+ *
+ * For the alpha-beta search a level sets how deep / long to think, plus the
+ * handicaps (evaluation noise and a chance of a deliberate blunder) that let
+ * weaker players win. Noise is in evaluation units, where a single counter is
+ * worth about 1 and a key piece about 6. MCTS levels differ only in budget.
+ * The stronger levels play tablebase endings perfectly.
+ */
+export type DifficultyId = "beginner" | "casual" | "intermediate" | "advanced" | "expert";
+
+export type Difficulty = {
+  id: DifficultyId;
+  name: string;
+  search: SearchLimits;
+  mcts: MctsLimits;
+  tablebase: boolean;
+};
+
+export const DIFFICULTIES: Record<DifficultyId, Difficulty> = {
+  beginner: {
+    id: "beginner",
+    name: "Beginner",
+    search: { maxDepth: 1, timeMs: 150, noise: 3, blunderRate: 0.3 },
+    mcts: { iterations: 100 },
+    tablebase: false,
+  },
+  casual: {
+    id: "casual",
+    name: "Casual",
+    search: { maxDepth: 2, timeMs: 300, noise: 1.5, blunderRate: 0.12 },
+    mcts: { iterations: 400 },
+    tablebase: false,
+  },
+  intermediate: {
+    id: "intermediate",
+    name: "Intermediate",
+    search: { maxDepth: 3, timeMs: 500, noise: 0.6, blunderRate: 0.04 },
+    mcts: { iterations: 1500, timeMs: 1000 },
+    tablebase: false,
+  },
+  advanced: {
+    id: "advanced",
+    name: "Advanced",
+    search: { timeMs: 1000, noise: 0.2 },
+    mcts: { timeMs: 1500 },
+    tablebase: true,
+  },
+  expert: {
+    id: "expert",
+    name: "Expert",
+    search: { timeMs: 2500 },
+    mcts: { timeMs: 3000 },
+    tablebase: true,
+  },
+};
+
+export const DEFAULT_DIFFICULTY: DifficultyId = "intermediate";
+
+/** Engines selectable in vs-AI games. */
+export type AIEngine = "search" | "mcts";
+
+export const AI_ENGINES: Record<AIEngine, string> = {
+  search: "Minimax",
+  mcts: "MCTS",
+};
+
+export function engineSpecFor(engine: AIEngine, level: DifficultyId): EngineSpec {
+  const d = DIFFICULTIES[level];
+  return engine === "mcts"
+    ? { kind: "mcts", limits: d.mcts, book: true, tablebase: d.tablebase }
+    : { kind: "search", limits: d.search, book: true, tablebase: d.tablebase };
+}
@@ -0,0 +1,65 @@
+// src/engine/engines.ts
+import type { Board, Player } from "../game/rules";
+import type { AIMove } from "./aiTypes";
+import { enumerateMoves, pickWithLookahead } from "./greedy";
+import { searchBest } from "./search";
+import type { GameHistory, SearchLimits, SearchResult } from "./search";
+import { mctsBest } from "./mcts";
+import type { MctsLimits } from "./mcts";
+import type { EvalParams } from "./evalParams";
+import { pickBookMove } from "./book";
+import { OPENING_BOOK } from "./bookData";
+import { tablebaseResult } from "./tablebase";
+
+/**
+ * An engine configuration: which move chooser to run and with what settings.
+ * Plain data, so it can be stored in a file or sent to a worker. With `book`,
+ * positions in the opening book are answered from it without thinking; with
+ * `tablebase`, so are positions in a loaded endgame tablebase.
+ */
+export type EngineSpec = { book?: boolean; tablebase?: boolean } & (
+  | { kind: "search"; limits: SearchLimits }
+  | { kind: "mcts"; limits: MctsLimits }
+  | { kind: "greedy"; lookahead?: boolean; params?: EvalParams }
+);
+
+/**
+ * Run `spec` for `turn`. Scores are engine-specific (evaluation units for search
+ * and greedy, expected result in [-1, 1] for MCTS, 0 for book moves, search
+ * mate scores for tablebase moves);
+ * `onProgress` gets interim results from the engines that have them. `game` is the
+ * history behind the position, for the search's draw rules.
+ */
+export function runEngine(
+  spec: EngineSpec,
+  board: Board,
+  turn: Player,
+  onProgress?: (progress: SearchResult) => void,
+  game?: GameHistory
+): SearchResult {
+  if (spec.book) {
+    const move = pickBookMove(OPENING_BOOK, board, turn);
+    if (move) return { move: { ...move, score: 0 }, score: 0, depth: 0, pv: [move], nodes: 0, elapsedMs: 0 };
+  }
+  const known = spec.tablebase ? tablebaseResult(board, turn, game) : null;
+  if (known) return known;
+  switch (spec.kind) {
+    case "search":
+      return searchBest(board, turn, spec.limits, onProgress, game);
+    case "mcts":
+      return mctsBest(board, turn, spec.limits, onProgress);
+    case "greedy": {
+      const start = Date.now();
+      const move = spec.lookahead
+        ? pickWithLookahead(board, turn, { params: spec.params })
+        : enumerateMoves(board, turn, spec.params)[0] ?? null;
+      const pv = move ? [move] : [];
+      return { move, score: move?.score ?? 0, depth: 1, pv, nodes: 0, elapsedMs: Date.now() - start };
+    }
+  }
+}
+
+/** The move `spec` plays for `turn` (null if there is none). */
+export function chooseMove(spec: EngineSpec, board: Board, turn: Player, game?: GameHistory): AIMove | null {
+  return runEngine(spec, board, turn, undefined, game).move;
+}
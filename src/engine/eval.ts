@@ -1,59 +1,167 @@
 // src/engine/eval.ts
-import type { Board } from "../game/rules";
-import {
-  pieceAt,
-  ownerOf,
-  isKing,
-  valueAt,
-  legalMovesFor,
-} from "../game/rules";
-
-// Simple 8x8 center bonus table (small nudges toward central control)
-const CENTER_BONUS: number[][] = [
-  [0, 0, 0, 0, 0, 0, 0, 0],
-  [0, 1, 1, 1, 1, 1, 1, 0],
-  [0, 1, 2, 2, 2, 2, 1, 0],
-  [0, 1, 2, 3, 3, 2, 1, 0],
-  [0, 1, 2, 3, 3, 2, 1, 0],
-  [0, 1, 2, 2, 2, 2, 1, 0],
-  [0, 1, 1, 1, 1, 1, 1, 0],
-  [0, 0, 0, 0, 0, 0, 0, 0],
+import { KEY, KING, WHITE, arrowOf, pieceTargets, raysOn, valueOf } from "./packed";
+import type { Packed, Side } from "./packed";
+import { EVAL_WEIGHTS } from "./weights";
+import type { EvalParams } from "./evalParams";
+
+/**
+ * Static evaluation of a packed position: the greedy engine's base score for a
+ * candidate move and the search's leaf score. Weights come from EvalParams.
+ */
+
+// The opponent has no keys left: the game is won. Fixed rather than a weight,
+// since tuning samples never reach a finished game.
+const ALL_KEYS_TAKEN = 1000;
+
+const ADJ: [number, number][] = [
+  [-1,-1],[-1,0],[-1,1],
+  [ 0,-1],       [ 0,1],
+  [ 1,-1],[ 1,0],[ 1,1],
 ];
 
-// Positive = good for 'me', negative = good for opponent.
-export function evalFor(board: Board, me: "Black" | "White"): number {
-  let score = 0;
-  let myMoves = 0;
-  let theirMoves = 0;
+// −0.5 per axis on the edge rows/cols, rising by 1 per step towards the middle
+// (2.5 + 2.5 at the centre of 8×8)
+export function centrality(pb: Packed, i: number): number {
+  const r = (i / pb.cols) | 0, c = i - r * pb.cols;
+  const cr = (pb.rows - 1) / 2, cc = (pb.cols - 1) / 2;
+  return (cr - 0.5 - Math.abs(cr - r)) + (cc - 0.5 - Math.abs(cc - c));
+}
 
-  for (let r = 0; r < 8; r++) {
-    for (let c = 0; c < 8; c++) {
-      const p = pieceAt(board, { r, c });
-      if (!p) continue;
-      const side = ownerOf(p);
-      const sign = side === me ? 1 : -1;
+function ownerAt(pb: Packed, i: number): Side {
+  return (pb.cells[i] & WHITE) as Side;
+}
 
-      // (1) Base = clamped ability value (0..3)
-      let v = valueAt(board, { r, c }); // your rules already clamp 0..3
+export function adjacentFriends(pb: Packed, side: Side, i: number): number {
+  const r = (i / pb.cols) | 0, c = i - r * pb.cols;
+  let n = 0;
+  for (const [dr, dc] of ADJ) {
+    const rr = r + dr, cc = c + dc;
+    if (rr < 0 || rr >= pb.rows || cc < 0 || cc >= pb.cols) continue;
+    const v = pb.cells[rr * pb.cols + cc];
+    if (v && (v & WHITE) === side) n++;
+  }
+  return n;
+}
 
-      // (2) Structure bonus (kings project rays / options)
-      if (isKing(p)) v += 1.2; // slightly > single
+// --- per-position threat picture, built from one target scan per piece:
+// cap = how many of a side's captures hit each square, prox = how many of its
+// moves/combines land next to it, plus mobility and capture counts per side
+export type Threats = {
+  cap: [Int32Array, Int32Array];
+  prox: [Int32Array, Int32Array];
+  moves: [number, number];
+  caps: [number, number];
+};
 
-      // (3) Centrality (very small)
-      v += 0.15 * CENTER_BONUS[r][c];
+export function buildThreats(pb: Packed): Threats {
+  const n = pb.cells.length;
+  const t: Threats = {
+    cap: [new Int32Array(n), new Int32Array(n)],
+    prox: [new Int32Array(n), new Int32Array(n)],
+    moves: [0, 0],
+    caps: [0, 0],
+  };
 
-      score += sign * v;
+  for (let i = 0; i < n; i++) {
+    if (!pb.cells[i]) continue;
+    const side = ownerAt(pb, i);
+    const lm = pieceTargets(pb, i);
+    t.moves[side] += lm.moves.length + lm.combines.length + lm.captures.length;
+    t.caps[side] += lm.captures.length;
 
-      // (4) Mobility (tiny): how many 1-step options exist from here
-      const { moves, captures, combines } = legalMovesFor(board, { r, c });
-      const mob = moves.length + captures.length + combines.length * 0.8;
-      if (side === me) myMoves += mob;
-      else theirMoves += mob;
+    for (const to of lm.captures) t.cap[side][to] += 1;
+    for (const set of [lm.moves, lm.combines]) {
+      for (const to of set) {
+        const r = (to / pb.cols) | 0, c = to - r * pb.cols;
+        for (const [dr, dc] of ADJ) {
+          const rr = r + dr, cc = c + dc;
+          if (rr >= 0 && rr < pb.rows && cc >= 0 && cc < pb.cols) t.prox[side][rr * pb.cols + cc] += 1;
+        }
+      }
     }
   }
+  return t;
+}
+
+export function canSideCaptureSquare(t: Threats, side: Side, i: number): boolean {
+  return t.cap[side][i] > 0;
+}
+
+function keySquares(pb: Packed, side: Side): number[] {
+  const ks: number[] = [];
+  for (let i = 0; i < pb.cells.length; i++) {
+    const v = pb.cells[i];
+    if (v & KEY && (v & WHITE) === side) ks.push(i);
+  }
+  return ks;
+}
+
+function canOppCaptureOurKey(pb: Packed, t: Threats, me: Side): boolean {
+  return keySquares(pb, me).some((k) => canSideCaptureSquare(t, (me ^ 1) as Side, k));
+}
+
+function canWeCaptureEnemyKey(pb: Packed, t: Threats, me: Side): boolean {
+  const oppKeys = keySquares(pb, (me ^ 1) as Side);
+  if (oppKeys.length === 0) return true;
+  return oppKeys.some((k) => canSideCaptureSquare(t, me, k));
+}
+
+/** Score of the position from `me`'s point of view (+1000 once the opponent has no keys). */
+export function evaluateBoard(
+  pb: Packed,
+  me: Side,
+  t: Threats = buildThreats(pb),
+  params: EvalParams = EVAL_WEIGHTS
+): number {
+  const w = params.eval;
+  let score = 0;
+  const opp = (me ^ 1) as Side;
+
+  // Material / keys / value / ray presence + threat modifiers
+  for (let i = 0; i < pb.cells.length; i++) {
+    const v = pb.cells[i];
+    if (!v) continue;
+
+    const mine = (v & WHITE) === me;
+    const sign = mine ? 1 : -1;
+
+    // Material
+    score += sign * (v & KING ? w.king : w.single);
+
+    // Keys
+    if (v & KEY) score += sign * w.key;
+
+    // Effective value
+    score += sign * (valueOf(pb, i) * w.value);
+
+    // Ray presence nudge
+    if (v & KING && arrowOf(v) >= 0) score += sign * w.rayPresence;
+
+    // Central placement
+    if (w.centrality) score += sign * w.centrality * centrality(pb, i);
+
+    // Threat pressure
+    const nowCap = mine ? t.cap[opp][i] : t.cap[me][i];
+    const nowProx = mine ? t.prox[opp][i] : t.prox[me][i];
+    const imp = v & KEY ? w.exposureKey : v & KING ? w.exposureKing : w.exposureSingle;
+    score += sign * (-w.threatCapture * nowCap * imp);
+    score += sign * (-w.threatProximity * nowProx * imp);
+  }
+
+  // Node coverage: ≥2 rays
+  for (let i = 0; i < pb.cells.length; i++) {
+    if (raysOn(pb, i, me) >= 2) score += w.coverage;
+    if (raysOn(pb, i, opp) >= 2) score -= w.coverage;
+  }
+
+  // Mobility + capture availability
+  score += w.mobility * (t.moves[me] - t.moves[opp]);
+  score += w.captures * (t.caps[me] - t.caps[opp]);
+
+  if (canWeCaptureEnemyKey(pb, t, me)) score += w.keyAttack;
+  if (canOppCaptureOurKey(pb, t, me)) score -= w.keyDanger;
 
-  // Mobility term
-  score += 0.1 * (myMoves - theirMoves);
+  if (pb.keys[opp] === 0) score += ALL_KEYS_TAKEN;
 
   return score;
 }
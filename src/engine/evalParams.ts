@@ -0,0 +1,131 @@
+// src/engine/evalParams.ts
+
+/**
+ * Every weight the engine's heuristics use, in one place.
+ *
+ * `eval` feeds the position evaluation (`evaluateBoard`, also the search's leaf
+ * score) and is what `scripts/tune.ts` fits from self-play results. `moves` holds
+ * the per-move bonuses the greedy move scorer adds on top of the evaluation; they
+ * rank candidate moves rather than score positions, so they are not tuned.
+ *
+ * The weights in play are `EVAL_WEIGHTS` (weights.ts); `DEFAULT_EVAL_PARAMS` are
+ * the hand-set values it started from.
+ */
+export type EvalParams = {
+  eval: {
+    /** Material per piece. */
+    single: number;
+    king: number;
+    /** Extra for a key piece. */
+    key: number;
+    /** Per point of effective value (0..3). */
+    value: number;
+    /** King with an arrow (it projects a ray). */
+    rayPresence: number;
+    /** Per enemy capture / nearby enemy move aimed at a piece, times its exposure. */
+    threatCapture: number;
+    threatProximity: number;
+    /** How much a threat against each kind of piece matters. */
+    exposureKey: number;
+    exposureKing: number;
+    exposureSingle: number;
+    /** Per square covered by two or more of a side's rays. */
+    coverage: number;
+    /** Per legal step / capture available, relative to the opponent. */
+    mobility: number;
+    captures: number;
+    /** We can take an enemy key / they can take one of ours. */
+    keyAttack: number;
+    keyDanger: number;
+    /** Per step of centrality (−0.5 per axis on the edge, see `centrality`). */
+    centrality: number;
+  };
+  moves: {
+    /** What losing each kind of piece costs (hanging and recapture checks). */
+    importanceKey: number;
+    importanceKing: number;
+    importanceSingle: number;
+    /** Per importance point of a piece left en prise. */
+    hanging: number;
+    /** Each adjacent friend divides a hanging penalty by (1 + this). */
+    defenderDamping: number;
+    combineBonus: number;
+    combinePerDefender: number;
+    combineRisk: number;
+    captureBonus: number;
+    captureKey: number;
+    captureKing: number;
+    captureValue: number;
+    captureCenter: number;
+    /** Recapture penalty per importance point of the capturing piece... */
+    recapture: number;
+    /** ...scaled down after taking a king or key, when we can retake, or when trading up. */
+    recaptureAfterKing: number;
+    recaptureAfterKey: number;
+    recaptureRelief: number;
+    recaptureTradeUp: number;
+    /** Tie-breakers so king/key captures come first. */
+    tacticalKing: number;
+    tacticalKey: number;
+    quietCenter: number;
+    quietRisk: number;
+    kingStepRisk: number;
+    rotateRisk: number;
+    scatterBonus: number;
+    scatterRisk: number;
+    /** pickWithLookahead's push for lines that start by taking a king / key. */
+    lookaheadKing: number;
+    lookaheadKey: number;
+  };
+};
+
+export const DEFAULT_EVAL_PARAMS: EvalParams = {
+  eval: {
+    single: 1,
+    king: 3,
+    key: 5,
+    value: 0.25,
+    rayPresence: 0.15,
+    threatCapture: 0.5,
+    threatProximity: 0.24,
+    exposureKey: 1.8,
+    exposureKing: 1.2,
+    exposureSingle: 0.8,
+    coverage: 0.4,
+    mobility: 0.1,
+    captures: 0.3,
+    keyAttack: 1.8,
+    keyDanger: 3.4,
+    centrality: 0,
+  },
+  moves: {
+    importanceKey: 3.2,
+    importanceKing: 2.2,
+    importanceSingle: 1,
+    hanging: 1.6,
+    defenderDamping: 0.6,
+    combineBonus: 0.6,
+    combinePerDefender: 0.12,
+    combineRisk: 2.2,
+    captureBonus: 3.2,
+    captureKey: 5.2,
+    captureKing: 4.8,
+    captureValue: 0.18,
+    captureCenter: 0.06,
+    recapture: 1.4,
+    recaptureAfterKing: 0.35,
+    recaptureAfterKey: 0.5,
+    recaptureRelief: 0.6,
+    recaptureTradeUp: 0.8,
+    tacticalKing: 6,
+    tacticalKey: 3.5,
+    quietCenter: 0.05,
+    quietRisk: 1,
+    kingStepRisk: 0.5,
+    rotateRisk: 0.6,
+    scatterBonus: 0.15,
+    scatterRisk: 0.9,
+    lookaheadKing: 5,
+    lookaheadKey: 2.5,
+  },
+};
@@ -1,201 +1,53 @@
 // src/engine/greedy.ts
 import type { Board, Player } from "../game/rules";
+import type { AIMove } from "./aiTypes";
 import {
-  pieceAt,
-  legalMovesFor,
-  valueAt,
-  isKeyPiece,
-  ownerOf,
-  isKing,
-  getRayForKing,
-} from "../game/rules";
-import { scatterBases, validateScatter } from "../game/scatter";
-
-// ---------------------------------------------------------------------------
-// Types (+ rotate + scatter)
-export type AIMove =
-  | { kind: "combine"; from: { r: number; c: number }; to: { r: number; c: number }; score: number }
-  | { kind: "move"; from: { r: number; c: number }; to: { r: number; c: number }; score: number; capture?: boolean }
-  | { kind: "rotate"; at: { r: number; c: number }; dir: "CW" | "CCW"; score: number }
-  | { kind: "scatter"; from: { r: number; c: number }; l1: { r: number; c: number }; l2: { r: number; c: number }; score: number };
+  KEY,
+  KING,
+  generateMoves,
+  makeMove,
+  packBoard,
+  scatterLandings,
+  sideOf,
+  toAction,
+  unmakeMove,
+  valueOf,
+} from "./packed";
+import type { PMove, Packed, Side } from "./packed";
+import { adjacentFriends, buildThreats, canSideCaptureSquare, centrality, evaluateBoard } from "./eval";
+import type { Threats } from "./eval";
+import { EVAL_WEIGHTS } from "./weights";
+import type { EvalParams } from "./evalParams";
+export type { AIMove } from "./aiTypes";
 
 // ---------------------------------------------------------------------------
 // Small helpers
-type AllDir = "N"|"NE"|"E"|"SE"|"S"|"SW"|"W"|"NW";
-const DIR_ORDER: AllDir[] = ["N","NE","E","SE","S","SW","W","NW"];
-const ADJ: [number, number][] = [
-  [-1,-1],[-1,0],[-1,1],
-  [ 0,-1],       [ 0,1],
-  [ 1,-1],[ 1,0],[ 1,1],
-];
-
-const other = (p: Player): Player => (p === "Black" ? "White" : "Black");
-
-function cloneBoard(b: Board): Board {
-  return b.map(row =>
-    row.map(cell =>
-      cell ? { counters: [...cell.counters], arrowDir: cell.arrowDir } : null
-    )
-  );
-}
-
-function inBounds(r: number, c: number) {
-  return r >= 0 && r < 8 && c >= 0 && c < 8;
-}
-
-function keysRemaining(board: Board, side: Player): number {
-  let n = 0;
-  for (let r = 0; r < 8; r++) for (let c = 0; c < 8; c++) {
-    const p = pieceAt(board, { r, c });
-    if (p && ownerOf(p) === side && isKeyPiece(p)) n++;
-  }
-  return n;
-}
-
-function keySquares(board: Board, side: Player): Array<{ r: number; c: number }> {
-  const ks: Array<{ r: number; c: number }> = [];
-  for (let r = 0; r < 8; r++) for (let c = 0; c < 8; c++) {
-    const p = pieceAt(board, { r, c });
-    if (p && isKeyPiece(p) && ownerOf(p) === side) ks.push({ r, c });
-  }
-  return ks;
-}
-
-function canSideCaptureSquare(board: Board, side: Player, target: { r: number; c: number }): boolean {
-  for (let r = 0; r < 8; r++) for (let c = 0; c < 8; c++) {
-    const pos = { r, c };
-    const p = pieceAt(board, pos);
-    if (!p || ownerOf(p) !== side) continue;
-    const lm = legalMovesFor(board, pos);
-    for (const to of lm.captures) {
-      if (to.r === target.r && to.c === target.c) return true;
-    }
-  }
-  return false;
-}
-
-function canOppCaptureOurKey(board: Board, me: Player): boolean {
-  const opp = other(me);
-  for (const k of keySquares(board, me)) {
-    if (canSideCaptureSquare(board, opp, k)) return true;
-  }
-  return false;
-}
-
-function canWeCaptureEnemyKey(board: Board, me: Player): boolean {
-  const oppKeys = keySquares(board, other(me));
-  if (oppKeys.length === 0) return true;
-  for (const k of oppKeys) {
-    if (canSideCaptureSquare(board, me, k)) return true;
-  }
-  return false;
-}
-
-function dirFromDelta(a: { r: number; c: number }, b: { r: number; c: number }): AllDir {
-  const dr = Math.sign(b.r - a.r);
-  const dc = Math.sign(b.c - a.c);
-  const map: Record<string, AllDir> = {
-    "-1,0": "N", "-1,1": "NE", "0,1": "E", "1,1": "SE",
-    "1,0": "S", "1,-1": "SW", "0,-1": "W", "-1,-1": "NW",
-  };
-  return map[`${dr},${dc}`];
-}
-
-function adjacentFriends(board: Board, side: Player, pos: { r: number; c: number }): number {
-  let n = 0;
-  for (const [dr, dc] of ADJ) {
-    const rr = pos.r + dr, cc = pos.c + dc;
-    if (!inBounds(rr, cc)) continue;
-    const p = pieceAt(board, { r: rr, c: cc });
-    if (p && ownerOf(p) === side) n++;
-  }
-  return n;
-}
 
 // --- piece “importance” (used for capture/recapture heuristics)
-function importanceAt(board: Board, pos: { r: number; c: number }): number {
-  const p = pieceAt(board, pos);
-  if (!p) return 0;
-  if (isKeyPiece(p)) return 3.2;
-  if (isKing(p))    return 2.2;
-  return 1.0;
-}
-
-// Apply a hypothetical move to a cloned board
-function applyMoveClone(
-  board: Board,
-  side: Player,
-  m:
-    | { kind: "move"; from: { r: number; c: number }; to: { r: number; c: number }; capture?: boolean }
-    | { kind: "combine"; from: { r: number; c: number }; onto: { r: number; c: number } }
-    | { kind: "rotate"; at: { r: number; c: number }; dir: "CW" | "CCW" }
-    | { kind: "scatter"; from: { r: number; c: number }; l1: { r: number; c: number }; l2: { r: number; c: number } }
-): Board {
-  void side;
-  const next = cloneBoard(board);
-
-  if (m.kind === "move") {
-    const p = pieceAt(next, m.from);
-    if (!p) return next;
-    if (m.capture) next[m.to.r][m.to.c] = null;
-    next[m.to.r][m.to.c] = p;
-    next[m.from.r][m.from.c] = null;
-    return next;
-  }
-
-  if (m.kind === "combine") {
-    const a = pieceAt(next, m.from);
-    const b = pieceAt(next, m.onto);
-    if (!a || !b) return next;
-    next[m.onto.r][m.onto.c] = {
-      counters: [...b.counters, ...a.counters],
-      arrowDir: dirFromDelta(m.from, m.onto),
-    };
-    next[m.from.r][m.from.c] = null;
-    return next;
-  }
-
-  if (m.kind === "rotate") {
-    const p = pieceAt(next, m.at);
-    if (!p) return next;
-    if (!isKing(p) || !(p as any).arrowDir) return next;
-    const idx = DIR_ORDER.indexOf((p as any).arrowDir as AllDir);
-    const nextDir = m.dir === "CW" ? DIR_ORDER[(idx + 1) % 8] : DIR_ORDER[(idx + 7) % 8];
-    (p as any).arrowDir = nextDir;
-    return next;
-  }
-
-  if (m.kind === "scatter") {
-    const src = pieceAt(next, m.from);
-    if (!src || !isKing(src)) return next;
-    const own = ownerOf(src);
-    next[m.from.r][m.from.c] = null;
-    const t1 = pieceAt(next, m.l1);
-    const t2 = pieceAt(next, m.l2);
-    if (t1 && ownerOf(t1) !== own) next[m.l1.r][m.l1.c] = null;
-    if (t2 && ownerOf(t2) !== own) next[m.l2.r][m.l2.c] = null;
-    next[m.l1.r][m.l1.c] = { counters: [{ owner: own }] };
-    next[m.l2.r][m.l2.c] = { counters: [{ owner: own }] };
-    return next;
-  }
-
-  return next;
+function importanceAt(pb: Packed, i: number, w: EvalParams["moves"]): number {
+  const v = pb.cells[i];
+  if (!v) return 0;
+  if (v & KEY)  return w.importanceKey;
+  if (v & KING) return w.importanceKing;
+  return w.importanceSingle;
 }
 
 // --- immediate danger probe (blunder/recapture check)
 function immediateCapturePenalty(
-  boardAfter: Board,
-  sideJustMoved: Player,
-  squaresToCheck: Array<{ r: number; c: number }>
+  pbAfter: Packed,
+  t: Threats,
+  sideJustMoved: Side,
+  squaresToCheck: number[],
+  w: EvalParams["moves"]
 ): number {
-  const opp = other(sideJustMoved);
+  const opp = (sideJustMoved ^ 1) as Side;
   let penalty = 0;
   for (const s of squaresToCheck) {
-    if (canSideCaptureSquare(boardAfter, opp, s)) {
-      const imp = importanceAt(boardAfter, s);
-      const def = adjacentFriends(boardAfter, sideJustMoved, s);
-      const damp = 1 / (1 + 0.6 * def);
-      penalty += 1.6 * imp * damp;
+    if (canSideCaptureSquare(t, opp, s)) {
+      const imp = importanceAt(pbAfter, s, w);
+      const def = adjacentFriends(pbAfter, sideJustMoved, s);
+      const damp = 1 / (1 + w.defenderDamping * def);
+      penalty += w.hanging * imp * damp;
     }
   }
   return penalty;
@@ -203,235 +55,131 @@ function immediateCapturePenalty(
 
 // If opponent can recapture landing square *and then we can recapture back*,
 // reduce fear (trade-up sequences are often fine).
-function recaptureRelief(
-  boardAfterOurCapture: Board,
-  us: Player,
-  landing: { r: number; c: number }
-): boolean {
-  const opp = other(us);
-  if (!canSideCaptureSquare(boardAfterOurCapture, opp, landing)) return false;
-  return canSideCaptureSquare(boardAfterOurCapture, us, landing);
-}
-
-// --- approaching threat maps (for eval)
-type Map8 = number[][];
-function makeZeroMap(): Map8 { return Array.from({ length: 8 }, () => Array(8).fill(0)); }
-
-function buildThreatMaps(board: Board, attacker: Player): { cap: Map8; prox: Map8 } {
-  const cap = makeZeroMap();
-  const prox = makeZeroMap();
-
-  for (let r = 0; r < 8; r++) for (let c = 0; c < 8; c++) {
-    const pos = { r, c };
-    const p = pieceAt(board, pos);
-    if (!p || ownerOf(p) !== attacker) continue;
-    const lm = legalMovesFor(board, pos);
-
-    for (const to of lm.captures) cap[to.r][to.c] += 1;
-    for (const set of [lm.moves, lm.combines]) {
-      for (const to of set) {
-        for (const [dr, dc] of ADJ) {
-          const rr = to.r + dr, cc = to.c + dc;
-          if (inBounds(rr, cc)) prox[rr][cc] += 1;
-        }
-      }
-    }
-  }
-  return { cap, prox };
+function recaptureRelief(t: Threats, us: Side, landing: number): boolean {
+  if (!canSideCaptureSquare(t, (us ^ 1) as Side, landing)) return false;
+  return canSideCaptureSquare(t, us, landing);
 }
 
 // ---------------------------------------------------------------------------
-// Position evaluator
-function evaluateBoard(board: Board, me: Player): number {
-  let score = 0;
-
-  const opp = other(me);
-  const oppMaps = buildThreatMaps(board, opp);
-  const ourMaps = buildThreatMaps(board, me);
-
-  // Material / keys / value / ray presence + threat modifiers
-  for (let r = 0; r < 8; r++) for (let c = 0; c < 8; c++) {
-    const pos = { r, c };
-    const p = pieceAt(board, pos);
-    if (!p) continue;
-
-    const mine = ownerOf(p) === me;
-    const sign = mine ? 1 : -1;
+// Main: enumerate and score candidates
 
-    // Material
-    score += sign * (isKing(p) ? 3 : 1);
+// Heuristic score of playing `m` from the current position (which is restored).
+function scoreCandidate(pb: Packed, side: Side, m: PMove, params: EvalParams): number {
+  const w = params.moves;
+  // a compound turn is scored as its follow-up from the rotated position
+  if (m.kind === "rotate" && m.then) {
+    const u = makeMove(pb, { kind: "rotate", at: m.at, dir: m.dir });
+    const score = scoreCandidate(pb, side, m.then, params);
+    unmakeMove(pb, u);
+    return score;
+  }
+
+  const pos = m.kind === "rotate" ? m.at : m.from;
+  const p = pb.cells[pos];
+  // facts about the position before the move
+  const target = m.kind === "capture" ? pb.cells[m.to] : 0;
+  const tookVal = m.kind === "capture" ? valueOf(pb, m.to) : 0;
+  const center = m.kind === "capture" || m.kind === "move" ? centrality(pb, m.to) : 0;
+  const landings = m.kind === "scatter" ? scatterLandings(pb, m.from, m.base)! : null;
+
+  const u = makeMove(pb, m);
+  const t = buildThreats(pb);
+  const base = evaluateBoard(pb, side, t, params);
+  let score = base;
+
+  switch (m.kind) {
+    case "combine": {
+      const { to } = m;
+      const risk = immediateCapturePenalty(pb, t, side, [to], w);
+      const def = adjacentFriends(pb, side, to);
+      score = base + w.combineBonus + w.combinePerDefender * def - w.combineRisk * risk;
+      break;
+    }
 
-    // Keys
-    if (isKeyPiece(p)) score += sign * 5;
+    // captures (HEAVILY reward king captures + soften fear)
+    case "capture": {
+      const { to } = m;
+      const tookKey   = !!(target & KEY);
+      const tookKing  = !!(target & KING);
+
+      let capBonus =
+        w.captureBonus +                     // generic capture bonus
+        (tookKey ? w.captureKey : 0) +       // keys = prime targets
+        (tookKing ? w.captureKing : 0) +     // BIG boost for king captures
+        w.captureValue * tookVal +           // value of target
+        w.captureCenter * center;
+
+      // Recapture risk at landing
+      let recPenalty = 0;
+      if (canSideCaptureSquare(t, (side ^ 1) as Side, to)) {
+        const lossImp = importanceAt(pb, to, w);              // lose our mover if recaptured
+        const def     = adjacentFriends(pb, side, to);
+        const damp    = 1 / (1 + w.defenderDamping * def);
+        recPenalty = w.recapture * lossImp * damp;            // slightly softer baseline
+
+        if (tookKing) recPenalty *= w.recaptureAfterKing;
+        else if (tookKey) recPenalty *= w.recaptureAfterKey;
+
+        if (recaptureRelief(t, side, to)) recPenalty *= w.recaptureRelief;
+
+        const moverWasKing = !!(p & KING);
+        const moverImp = moverWasKing ? w.importanceKing : p & KEY ? w.importanceKey : w.importanceSingle;
+        const targetImp = tookKey ? w.importanceKey : tookKing ? w.importanceKing : w.importanceSingle;
+        if (targetImp > moverImp) recPenalty *= w.recaptureTradeUp;
+      }
 
-    // Effective value
-    score += sign * (valueAt(board, pos) * 0.25);
+      // Tactical override so king/key takes win ties
+      if (tookKing) capBonus += w.tacticalKing;
+      else if (tookKey) capBonus += w.tacticalKey;
 
-    // Ray presence nudge
-    if (isKing(p) && (p as any).arrowDir) score += sign * 0.15;
+      score = base + capBonus - recPenalty;
+      break;
+    }
 
-    // Threat pressure
-    const nowCap = mine ? oppMaps.cap[r][c] : ourMaps.cap[r][c];
-    const nowProx = mine ? oppMaps.prox[r][c] : ourMaps.prox[r][c];
-    const imp = isKeyPiece(p) ? 1.8 : isKing(p) ? 1.2 : 0.8;
-    score += sign * (-0.50 * nowCap * imp);
-    score += sign * (-0.24 * nowProx * imp);
-  }
+    // quiet moves
+    case "move": {
+      const { to } = m;
+      const risk = immediateCapturePenalty(pb, t, side, [to], w);
+      let kingStepPenalty = 0;
+      if (p & KING && canSideCaptureSquare(t, (side ^ 1) as Side, to)) kingStepPenalty = w.kingStepRisk;
+      score = base + w.quietCenter * center - w.quietRisk * risk - kingStepPenalty;
+      break;
+    }
 
-  // Node coverage: ≥2 rays
-  const coverMe = new Map<string, number>();
-  const coverOp = new Map<string, number>();
-  for (let r = 0; r < 8; r++) for (let c = 0; c < 8; c++) {
-    const pos = { r, c };
-    const p = pieceAt(board, pos);
-    if (!p || !isKing(p) || !(p as any).arrowDir) continue;
-    const ray = getRayForKing(board, pos);
-    const m = ownerOf(p) === me ? coverMe : coverOp;
-    for (const sq of ray) {
-      const key = `${sq.r},${sq.c}`;
-      m.set(key, (m.get(key) ?? 0) + 1);
+    // re-orientation (uses the turn at value 2)
+    case "rotate": {
+      const risk = immediateCapturePenalty(pb, t, side, [pos], w);
+      score = base - w.rotateRisk * risk;
+      break;
     }
-  }
-  for (const [, n] of coverMe) if (n >= 2) score += 0.4;
-  for (const [, n] of coverOp) if (n >= 2) score -= 0.4;
-
-  // Mobility + capture availability
-  let myMoves = 0, opMoves = 0, myCaps = 0, opCaps = 0;
-  for (let r = 0; r < 8; r++) for (let c = 0; c < 8; c++) {
-    const pos = { r, c };
-    const p = pieceAt(board, pos);
-    if (!p) continue;
-    const lm = legalMovesFor(board, pos);
-    if (ownerOf(p) === me) {
-      myMoves += lm.moves.length + lm.combines.length + lm.captures.length;
-      myCaps  += lm.captures.length;
-    } else {
-      opMoves += lm.moves.length + lm.combines.length + lm.captures.length;
-      opCaps  += lm.captures.length;
+
+    // scatter (value >= 2)
+    case "scatter": {
+      const risk = immediateCapturePenalty(pb, t, side, landings!, w);
+      score = base + w.scatterBonus - w.scatterRisk * risk;
+      break;
     }
   }
-  score += 0.10 * (myMoves - opMoves);
-  score += 0.30 * (myCaps - opCaps);
-
-  if (canWeCaptureEnemyKey(board, me)) score += 1.8;
-  if (canOppCaptureOurKey(board, me)) score -= 3.4;
-
-  if (keysRemaining(board, other(me)) === 0) score += 1000;
 
+  unmakeMove(pb, u);
   return score;
 }
 
-// ---------------------------------------------------------------------------
-// Main: enumerate and score candidates
-export function enumerateMoves(board: Board, side: Player): AIMove[] {
-  const out: AIMove[] = [];
-
-  for (let r = 0; r < 8; r++) {
-    for (let c = 0; c < 8; c++) {
-      const pos = { r, c };
-      const p = pieceAt(board, pos);
-      if (!p || ownerOf(p) !== side) continue;
-
-      const lm = legalMovesFor(board, pos);
-
-      // combines
-      for (const to of lm.combines) {
-        const nb = applyMoveClone(board, side, { kind: "combine", from: pos, onto: to });
-        const base = evaluateBoard(nb, side);
-        const risk = immediateCapturePenalty(nb, side, [to]);
-        const def = adjacentFriends(nb, side, to);
-        const score = base + 0.6 + 0.12 * def - 2.2 * risk;
-        out.push({ kind: "combine", from: pos, to, score });
-      }
-
-      // captures (HEAVILY reward king captures + soften fear)
-      for (const to of lm.captures) {
-        const tgtBefore = pieceAt(board, to);
-        const nb = applyMoveClone(board, side, { kind: "move", from: pos, to, capture: true });
-
-        const base = evaluateBoard(nb, side);
-
-        const tookKey   = !!(tgtBefore && isKeyPiece(tgtBefore));
-        const tookKing  = !!(tgtBefore && isKing(tgtBefore));
-        const tookVal   = tgtBefore ? valueAt(board, to) : 0;
-
-        let capBonus =
-          3.2 +                                // generic capture bonus
-          (tookKey ? 5.2 : 0) +                // keys = prime targets
-          (tookKing ? 4.8 : 0) +               // BIG boost for king captures
-          0.18 * tookVal +                     // value of target
-          0.06 * ((3 - Math.abs(3.5 - to.r)) + (3 - Math.abs(3.5 - to.c)));
-
-        // Recapture risk at landing
-        let recPenalty = 0;
-        if (canSideCaptureSquare(nb, other(side), to)) {
-          const lossImp = importanceAt(nb, to);                 // lose our mover if recaptured
-          const def     = adjacentFriends(nb, side, to);
-          const damp    = 1 / (1 + 0.6 * def);
-          recPenalty = 1.4 * lossImp * damp;                    // slightly softer baseline
-
-          if (tookKing) recPenalty *= 0.35;
-          else if (tookKey) recPenalty *= 0.5;
-
-          if (recaptureRelief(nb, side, to)) recPenalty *= 0.6;
-
-          const moverWasKing = isKing(p);
-          const moverImp = moverWasKing ? 2.2 : isKeyPiece(p) ? 3.2 : 1.0;
-          const targetImp = tookKey ? 3.2 : tookKing ? 2.2 : 1.0;
-          if (targetImp > moverImp) recPenalty *= 0.8;
-        }
-
-        // Tactical override so king/key takes win ties
-        if (tookKing) capBonus += 6.0;
-        else if (tookKey) capBonus += 3.5;
-
-        const score = base + capBonus - recPenalty;
-        out.push({ kind: "move", from: pos, to, capture: true, score });
-      }
-
-      // quiet moves
-      for (const to of lm.moves) {
-        const nb = applyMoveClone(board, side, { kind: "move", from: pos, to });
-        const base = evaluateBoard(nb, side);
-        const center = 0.05 * ((3 - Math.abs(3.5 - to.r)) + (3 - Math.abs(3.5 - to.c)));
-        const risk = immediateCapturePenalty(nb, side, [to]);
-        let kingStepPenalty = 0;
-        if (isKing(p) && canSideCaptureSquare(nb, other(side), to)) kingStepPenalty = 0.5;
-        const score = base + center - 1.0 * risk - kingStepPenalty;
-        out.push({ kind: "move", from: pos, to, score });
-      }
-
-      // free-rotation at value >= 3
-      if (isKing(p) && (p as any).arrowDir && valueAt(board, pos) >= 3) {
-        for (const dir of ["CW", "CCW"] as const) {
-          const nb = applyMoveClone(board, side, { kind: "rotate", at: pos, dir });
-          const base = evaluateBoard(nb, side);
-          const risk = immediateCapturePenalty(nb, side, [pos]);
-          const score = base - 0.6 * risk;
-          out.push({ kind: "rotate", at: pos, dir, score });
-        }
-      }
-
-      // scatter (value >= 2)
-      if (isKing(p) && (p as any).arrowDir && valueAt(board, pos) >= 2) {
-        const bases = scatterBases(board, pos);
-        for (const basePos of bases) {
-          const v = validateScatter(board, pos, basePos);
-          if (!v?.can) continue;
-          const nb = applyMoveClone(board, side, { kind: "scatter", from: pos, l1: v.l1, l2: v.l2 });
-          const baseEval = evaluateBoard(nb, side);
-          const risk = immediateCapturePenalty(nb, side, [v.l1, v.l2]);
-          const score = baseEval + 0.15 - 0.9 * risk;
-          out.push({ kind: "scatter", from: pos, l1: v.l1, l2: v.l2, score });
-        }
-      }
-    }
-  }
+type Scored = { m: PMove; score: number };
 
+// complete turns only: a free rotation always comes with its follow-up
+function enumeratePacked(pb: Packed, params: EvalParams): Scored[] {
+  const side = pb.turn;
+  const out = generateMoves(pb).map((m) => ({ m, score: scoreCandidate(pb, side, m, params) }));
   out.sort((a, b) => b.score - a.score);
   return out.slice(0, 32);
 }
 
+export function enumerateMoves(board: Board, side: Player, params: EvalParams = EVAL_WEIGHTS): AIMove[] {
+  const pb = packBoard(board, side);
+  return enumeratePacked(pb, params).map(({ m, score }) => ({ ...toAction(pb, m), score }));
+}
+
 // ---------------------------------------------------------------------------
 // Depth-2 lookahead (minimax with pruning)
 const OPP_REPLY_LIMIT_DEFAULT = 6;
@@ -440,60 +188,52 @@ const MOVE_LIMIT_DEFAULT = 24;
 export function pickWithLookahead(
   board: Board,
   side: Player,
-  opts?: { replyLimit?: number; moveLimit?: number }
+  opts?: { replyLimit?: number; moveLimit?: number; params?: EvalParams }
 ): AIMove | null {
   const replyLimit = opts?.replyLimit ?? OPP_REPLY_LIMIT_DEFAULT;
   const moveLimit  = opts?.moveLimit  ?? MOVE_LIMIT_DEFAULT;
+  const params     = opts?.params     ?? EVAL_WEIGHTS;
 
-  const firstMoves = enumerateMoves(board, side).slice(0, moveLimit);
+  const pb = packBoard(board, side);
+  const me = sideOf(side);
+  const firstMoves = enumeratePacked(pb, params).slice(0, moveLimit);
   if (!firstMoves.length) return null;
 
   let bestMove: AIMove | null = null;
   let bestScore = -Infinity;
 
-  for (const m of firstMoves) {
-    const nb = applyMoveClone(board, side, (m.kind === "combine"
-      ? { kind: "combine", from: m.from as any, onto: (m as any).to }
-      : m.kind === "move"
-      ? { kind: "move", from: m.from as any, to: (m as any).to, capture: (m as any).capture }
-      : m.kind === "rotate"
-      ? { kind: "rotate", at: (m as any).at, dir: (m as any).dir }
-      : { kind: "scatter", from: (m as any).from, l1: (m as any).l1, l2: (m as any).l2 }
-    ) as any);
-
-    if (keysRemaining(nb, other(side)) === 0) {
-      return { ...m, score: 9999 };
+  for (const { m } of firstMoves) {
+    // Tactical preference: if `m` captured a king/key, shove the minimax score up
+    let tactical = 0;
+    if (m.kind === "capture") {
+      const tgtWas = pb.cells[m.to];
+      if (tgtWas & KING) tactical += params.moves.lookaheadKing;
+      if (tgtWas & KEY) tactical += params.moves.lookaheadKey;
+    }
+
+    const u = makeMove(pb, m);
+
+    if (pb.keys[me ^ 1] === 0) {
+      unmakeMove(pb, u);
+      return { ...toAction(pb, m), score: 9999 };
     }
 
-    const baseAfterUs = evaluateBoard(nb, side);
-    const replies = enumerateMoves(nb, other(side)).slice(0, replyLimit);
+    const baseAfterUs = evaluateBoard(pb, me, undefined, params);
+    const replies = enumeratePacked(pb, params).slice(0, replyLimit);
 
     let worstForUs = replies.length ? Infinity : 0;
     for (const r of replies) {
-      const nb2 = applyMoveClone(nb, other(side), (r.kind === "combine"
-        ? { kind: "combine", from: r.from as any, onto: (r as any).to }
-        : r.kind === "move"
-        ? { kind: "move", from: r.from as any, to: (r as any).to, capture: (r as any).capture }
-        : r.kind === "rotate"
-        ? { kind: "rotate", at: (r as any).at, dir: (r as any).dir }
-        : { kind: "scatter", from: (r as any).from, l1: (r as any).l1, l2: (r as any).l2 }
-      ) as any);
-      const val = evaluateBoard(nb2, side);
+      const u2 = makeMove(pb, r.m);
+      const val = evaluateBoard(pb, me, undefined, params);
+      unmakeMove(pb, u2);
       if (val < worstForUs) worstForUs = val;
     }
-
-    // Tactical preference: if `m` captured a king/key, shove the minimax score up
-    let tactical = 0;
-    if (m.kind === "move" && m.capture) {
-      const tgtWas = pieceAt(board, (m as any).to);
-      if (tgtWas && isKing(tgtWas)) tactical += 5.0;
-      if (tgtWas && isKeyPiece(tgtWas)) tactical += 2.5;
-    }
+    unmakeMove(pb, u);
 
     const minimaxScore = baseAfterUs - worstForUs + tactical;
     if (minimaxScore > bestScore) {
       bestScore = minimaxScore;
-      bestMove = { ...(m as any), score: minimaxScore };
+      bestMove = { ...toAction(pb, m), score: minimaxScore };
     }
   }
 
@@ -0,0 +1,68 @@
+// src/engine/hint.ts
+import type { Board, Player } from "../game/rules";
+import type { Action } from "../game/actions";
+import { KEY, KING, WHITE, fromAction, makeMove, packBoard, sideOf, winnerOfPacked } from "./packed";
+import type { Packed, Side } from "./packed";
+import { buildThreats, canSideCaptureSquare } from "./eval";
+import type { EngineSpec } from "./engines";
+import { WIN } from "./search";
+
+/**
+ * "What would the engine do here?": the engine the Hint button runs, and a
+ * one-line reason for its choice, read off the parts of the evaluation the
+ * move changes (material, keys in danger, keys under attack) and its score.
+ */
+export const HINT_SPEC: EngineSpec = { kind: "search", limits: { timeMs: 1000 }, tablebase: true };
+
+type Picture = { pieces: number; kings: number; enemyKeys: number; hanging: number; attacked: number };
+
+// what the evaluation's material and key terms see for `side`: its pieces, the
+// enemy keys left, its keys the enemy could take and enemy keys it could take
+function pictureOf(pb: Packed, side: Side): Picture {
+  const t = buildThreats(pb);
+  const opp = (side ^ 1) as Side;
+  const p: Picture = { pieces: 0, kings: 0, enemyKeys: pb.keys[opp], hanging: 0, attacked: 0 };
+  for (let i = 0; i < pb.cells.length; i++) {
+    const v = pb.cells[i];
+    if (!v) continue;
+    if ((v & WHITE) === side) {
+      p.pieces++;
+      if (v & KING) p.kings++;
+      if (v & KEY && canSideCaptureSquare(t, opp, i)) p.hanging++;
+    } else if (v & KEY && canSideCaptureSquare(t, side, i)) {
+      p.attacked++;
+    }
+  }
+  return p;
+}
+
+function formatScore(score: number): string {
+  return `${score >= 0 ? "+" : "−"}${Math.abs(score).toFixed(1)}`;
+}
+
+/** A short reason why `move` (scored `score` for `turn` by the engine) is the suggestion. */
+export function hintReason(board: Board, turn: Player, move: Action, score: number): string {
+  const me = sideOf(turn);
+  const pb = packBoard(board, turn);
+  const opp = pictureOf(pb, (me ^ 1) as Side);
+  const mine = pictureOf(pb, me);
+  makeMove(pb, fromAction(pb, move));
+  if (winnerOfPacked(pb) === me) return "Takes the last enemy key and wins.";
+  const oppAfter = pictureOf(pb, (me ^ 1) as Side);
+  const mineAfter = pictureOf(pb, me);
+
+  const reasons: string[] = [];
+  if (score > WIN / 2) reasons.push(`Forces a win in ${WIN - score} plies.`);
+  else if (score < -WIN / 2) reasons.push(`Every move loses; this holds out longest (${WIN + score} plies).`);
+  if (mineAfter.enemyKeys < mine.enemyKeys) reasons.push("Takes a key piece.");
+  else if (oppAfter.kings < opp.kings) reasons.push("Wins a king.");
+  else if (oppAfter.pieces < opp.pieces) reasons.push("Wins material.");
+  if (mineAfter.hanging < mine.hanging) reasons.push("Gets a key out of danger.");
+  if (mineAfter.attacked > mine.attacked) reasons.push("Attacks an enemy key.");
+  if (move.kind === "combine") reasons.push("Forms a king.");
+  if (move.kind === "rotate" && !move.then) reasons.push("Re-aims the king's rays.");
+  if (move.kind === "scatter") reasons.push("Splits the king.");
+  if (!reasons.length) reasons.push("Improves the position.");
+  if (Math.abs(score) <= WIN / 2) reasons.push(`Engine eval ${formatScore(score)} for ${turn}.`);
+  return reasons.slice(0, 3).join(" ");
+}
@@ -0,0 +1,58 @@
+// src/engine/liveEval.ts
+import type { Board, Player } from "../game/rules";
+import type { Action } from "../game/actions";
+import { formatAction } from "../game/notation";
+import { applyAction, initialState } from "../game/reducer";
+import type { EngineSpec } from "./engines";
+import { WIN } from "./search";
+
+/**
+ * The evaluation bar and principal variation shown beside the board: a
+ * background search of the displayed position, and helpers to present its
+ * score (from Black's side) and best line. The budget is small: the search
+ * reruns on every move and shares the CPU with the AI.
+ */
+export const LIVE_EVAL_SPEC: EngineSpec = { kind: "search", limits: { timeMs: 2000 }, tablebase: true };
+
+/** Score from Black's side, given a score for the side to move. */
+export function blackScore(score: number, turn: Player): number {
+  return turn === "Black" ? score : -score;
+}
+
+/** Share of the bar that is Black's (0..1): ½ when level, near 1 or 0 at a decisive edge. */
+export function blackShare(score: number): number {
+  if (score > WIN / 2) return 1;
+  if (score < -WIN / 2) return 0;
+  return 1 / (1 + Math.exp(-score / 3));
+}
+
+/**
+ * "+1.4", "−0.3", "B7" / "W7" for a forced win for Black / White in that many
+ * plies, or "1-0" / "0-1" once it is won.
+ */
+export function formatEval(score: number): string {
+  if (score >= WIN) return "1-0";
+  if (score <= -WIN) return "0-1";
+  if (score > WIN / 2) return `B${WIN - score}`;
+  if (score < -WIN / 2) return `W${WIN + score}`;
+  return `${score >= 0 ? "+" : "−"}${Math.abs(score).toFixed(1)}`;
+}
+
+/**
+ * The positions along `pv` from `board` and each move in notation. Stops early
+ * at a move that doesn't apply (a stale line) or once the game is over.
+ */
+export function pvLine(board: Board, turn: Player, pv: Action[]): { boards: Board[]; moves: string[] } {
+  let s = initialState(board, turn);
+  const boards = [board];
+  const moves: string[] = [];
+  for (const action of pv) {
+    if (s.result) break;
+    const next = applyAction(s, action);
+    if ("error" in next) break;
+    moves.push(formatAction(s.board, action));
+    s = next.state;
+    boards.push(s.board);
+  }
+  return { boards, moves };
+}
@@ -0,0 +1,25 @@
+import { describe, expect, it } from "vitest";
+import { KINGS_MIDGAME, position } from "../test/helpers";
+import { formatAction } from "../game/notation";
+import { generateTurns } from "../game/reducer";
+import { mctsBest } from "./mcts";
+
+describe("mctsBest", () => {
+  it("takes the last enemy key when it can", () => {
+    const { board, turn } = position("4/1w2/2W1/1B1b b");
+    const r = mctsBest(board, turn, { iterations: 500 });
+    expect(["b1xc2", "d1xc2"]).toContain(formatAction(board, r.move!));
+    expect(r.score).toBeGreaterThan(0.9);
+  });
+
+  it("plays a legal turn within its iteration budget", () => {
+    const { board, turn } = position(KINGS_MIDGAME);
+    const legal = generateTurns(board, turn).map((a) => formatAction(board, a));
+    for (const guided of [true, false]) {
+      const r = mctsBest(board, turn, { iterations: 300, guided });
+      expect(legal).toContain(formatAction(board, r.move!));
+      expect(r.nodes).toBe(300);
+      expect(Math.abs(r.score)).toBeLessThanOrEqual(1);
+    }
+  });
+});
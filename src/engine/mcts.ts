@@ -0,0 +1,207 @@
+// src/engine/mcts.ts
+import type { Board, Player } from "../game/rules";
+import type { Action } from "../game/actions";
+import { generateMoves, makeMove, packBoard, toAction, unmakeMove, winnerOfPacked } from "./packed";
+import type { PMove, Packed, Side, Undo } from "./packed";
+import { evaluateBoard } from "./eval";
+import { captureWeight } from "./search";
+import type { SearchResult } from "./search";
+
+/**
+ * Monte Carlo tree search with UCT selection, an alternative to the alpha-beta
+ * search that leans on playout results instead of the handcrafted evaluation.
+ *
+ * Each iteration walks down the tree by UCT, adds one child, plays the game out
+ * with the shared move generator and backs the result up the path. Playouts are
+ * uniformly random, or with `guided` prefer captures and score an unfinished
+ * playout by the evaluation instead of calling it a draw. The move played is the
+ * most visited root child. Draw rules (repetition, no progress) are not modelled
+ * inside the tree or playouts.
+ */
+export type MctsLimits = {
+  /** Iteration budget (default 2000 when no time budget is given). */
+  iterations?: number;
+  /** Wall-clock budget in ms. */
+  timeMs?: number;
+  /** UCT exploration constant (default √2). */
+  exploration?: number;
+  /** Plies per playout before it is scored as unfinished (default 60). */
+  playoutDepth?: number;
+  /** Capture-preferring playouts scored by the evaluation (default true). */
+  guided?: boolean;
+};
+
+type Node = {
+  move: PMove | null;
+  parent: Node | null;
+  /** Side that played `move`; `score` is kept from its point of view. */
+  mover: Side;
+  children: Node[];
+  /** Moves not expanded yet (null until the node is first reached). */
+  untried: PMove[] | null;
+  visits: number;
+  score: number;
+  /** Set when `move` ended the game. */
+  winner: Side | null;
+};
+
+// rough logistic scale mapping an evaluation to an expected result
+const EVAL_SCALE = 0.5;
+// chance that a guided playout takes a capture when one is available
+const CAPTURE_BIAS = 0.5;
+const PROGRESS_MS = 100;
+
+function newNode(move: PMove | null, parent: Node | null, mover: Side, winner: Side | null): Node {
+  return { move, parent, mover, children: [], untried: null, visits: 0, score: 0, winner };
+}
+
+function shuffle<T>(xs: T[]): T[] {
+  for (let i = xs.length - 1; i > 0; i--) {
+    const j = Math.floor(Math.random() * (i + 1));
+    [xs[i], xs[j]] = [xs[j], xs[i]];
+  }
+  return xs;
+}
+
+function selectChild(node: Node, c: number): Node {
+  const logN = Math.log(node.visits);
+  let best = node.children[0];
+  let bestU = -Infinity;
+  for (const ch of node.children) {
+    const u = ch.score / ch.visits + c * Math.sqrt(logN / ch.visits);
+    if (u > bestU) {
+      bestU = u;
+      best = ch;
+    }
+  }
+  return best;
+}
+
+// play on from the current position; returns the result for Black (1 win, ½, 0 loss)
+function playout(pb: Packed, depth: number, guided: boolean): number {
+  const undos: Undo[] = [];
+  let result = 0.5;
+  for (let ply = 0; ; ply++) {
+    if (ply >= depth) {
+      if (guided) result = 1 / (1 + Math.exp(-EVAL_SCALE * evaluateBoard(pb, 0)));
+      break;
+    }
+    const moves = generateMoves(pb);
+    if (!moves.length) break;
+    let m = moves[Math.floor(Math.random() * moves.length)];
+    if (guided && Math.random() < CAPTURE_BIAS) {
+      const caps = moves.filter((x) => captureWeight(pb, x) > 0);
+      if (caps.length) m = caps[Math.floor(Math.random() * caps.length)];
+    }
+    const mover = pb.turn;
+    undos.push(makeMove(pb, m));
+    if (winnerOfPacked(pb) === mover) {
+      result = mover === 0 ? 1 : 0;
+      break;
+    }
+  }
+  for (let i = undos.length - 1; i >= 0; i--) unmakeMove(pb, undos[i]);
+  return result;
+}
+
+function mostVisited(node: Node): Node | null {
+  let best: Node | null = null;
+  for (const ch of node.children) if (!best || ch.visits > best.visits) best = ch;
+  return best;
+}
+
+function resultOf(pb: Packed, root: Node, iterations: number, start: number): SearchResult {
+  // principal variation: the most visited child at each level
+  const pv: Action[] = [];
+  const undos: Undo[] = [];
+  for (let n = mostVisited(root); n; n = mostVisited(n)) {
+    pv.push(toAction(pb, n.move!));
+    undos.push(makeMove(pb, n.move!));
+  }
+  for (let i = undos.length - 1; i >= 0; i--) unmakeMove(pb, undos[i]);
+
+  const first = mostVisited(root);
+  // expected result for the side to move, mapped to [-1, 1]
+  const score = first ? (2 * first.score) / first.visits - 1 : 0;
+  return {
+    move: pv.length ? { ...pv[0], score } : null,
+    score,
+    depth: pv.length,
+    pv,
+    nodes: iterations,
+    elapsedMs: Date.now() - start,
+  };
+}
+
+/**
+ * Best move for `side` by MCTS. `onProgress` is called about every 100 ms with
+ * the result so far. `score` is the expected result for `side` in [-1, 1] and
+ * `nodes` counts iterations.
+ */
+export function mctsBest(
+  board: Board,
+  side: Player,
+  limits: MctsLimits = {},
+  onProgress?: (progress: SearchResult) => void
+): SearchResult {
+  const start = Date.now();
+  const pb = packBoard(board, side);
+  const maxIter = limits.iterations ?? (limits.timeMs ? Infinity : 2000);
+  const deadline = limits.timeMs ? start + limits.timeMs : Infinity;
+  const c = limits.exploration ?? Math.SQRT2;
+  const depth = limits.playoutDepth ?? 60;
+  const guided = limits.guided ?? true;
+
+  const root = newNode(null, null, (pb.turn ^ 1) as Side, null);
+  let iter = 0;
+  let nextReport = start + PROGRESS_MS;
+  const path: Undo[] = [];
+
+  while (iter < maxIter) {
+    if ((iter & 31) === 0) {
+      const now = Date.now();
+      if (now >= deadline) break;
+      if (onProgress && now >= nextReport) {
+        onProgress(resultOf(pb, root, iter, start));
+        nextReport = now + PROGRESS_MS;
+      }
+    }
+    iter++;
+
+    // selection: descend through fully expanded nodes
+    let node = root;
+    while (node.winner === null && node.untried && !node.untried.length && node.children.length) {
+      node = selectChild(node, c);
+      path.push(makeMove(pb, node.move!));
+    }
+
+    // expansion: one new child
+    if (node.winner === null) {
+      if (!node.untried) node.untried = shuffle(generateMoves(pb));
+      const m = node.untried.pop();
+      if (m) {
+        const mover = pb.turn;
+        path.push(makeMove(pb, m));
+        const child = newNode(m, node, mover, winnerOfPacked(pb) === mover ? mover : null);
+        node.children.push(child);
+        node = child;
+      }
+    }
+
+    // simulation (a node without moves and without a winner is a draw)
+    let result: number;
+    if (node.winner !== null) result = node.winner === 0 ? 1 : 0;
+    else if (node.untried && !node.untried.length && !node.children.length) result = 0.5;
+    else result = playout(pb, depth, guided);
+
+    // backpropagation
+    for (let n: Node | null = node; n; n = n.parent) {
+      n.visits++;
+      n.score += n.mover === 0 ? result : 1 - result;
+    }
+    for (let i = path.length - 1; i >= 0; i--) unmakeMove(pb, path[i]);
+    path.length = 0;
+  }
+
+  return resultOf(pb, root, iter, start);
+}
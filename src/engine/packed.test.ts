@@ -0,0 +1,78 @@
+import { describe, expect, it } from "vitest";
+import { KINGS_MIDGAME, position, randomGame, seededRandom } from "../test/helpers";
+import { formatAction } from "../game/notation";
+import { serializePosition } from "../game/position";
+import { applyAction, generateTurns } from "../game/reducer";
+import type { GameState } from "../game/reducer";
+import { valueAt } from "../game/rules";
+import { initialBoard } from "../game/setupBoard";
+import { hashPosition } from "../game/zobrist";
+import {
+  generateCaptures,
+  generateMoves,
+  makeMove,
+  packBoard,
+  packedHash,
+  playerOf,
+  toAction,
+  unmakeMove,
+  unpackBoard,
+  valueOf,
+} from "./packed";
+
+// a dozen positions from two random games, one with kings from the start
+function samples(): GameState[] {
+  const starts = [position(KINGS_MIDGAME), { board: initialBoard("standard"), turn: "Black" as const }];
+  return starts.flatMap((start, i) => randomGame(start, 36, seededRandom(30 + i)).states.filter((_, k) => k % 6 === 0));
+}
+
+describe("packed board", () => {
+  const states = samples();
+
+  it("generates the same turns as the rules", () => {
+    for (const s of states) {
+      const pb = packBoard(s.board, s.turn);
+      const packed = generateMoves(pb).map((m) => formatAction(s.board, toAction(pb, m)));
+      const rules = generateTurns(s.board, s.turn).map((a) => formatAction(s.board, a));
+      expect(packed.sort()).toEqual(rules.sort());
+    }
+  });
+
+  it("reads the same values as the rules", () => {
+    for (const s of states) {
+      const pb = packBoard(s.board, s.turn);
+      s.board.forEach((row, r) =>
+        row.forEach((_, c) => expect(valueOf(pb, r * pb.cols + c)).toBe(valueAt(s.board, { r, c })))
+      );
+    }
+  });
+
+  it("makes each move like applyAction and unmakes it exactly", () => {
+    for (const s of states) {
+      const pb = packBoard(s.board, s.turn);
+      const cells = pb.cells.slice();
+      const hash = packedHash(pb);
+      for (const m of generateMoves(pb)) {
+        const r = applyAction(s, toAction(pb, m));
+        if ("error" in r) throw new Error(r.error);
+        const u = makeMove(pb, m);
+        // compared as text: the rules' pieces may carry an explicit `arrowDir: undefined`
+        expect(serializePosition(unpackBoard(pb), "Black")).toBe(serializePosition(r.state.board, "Black"));
+        expect(packedHash(pb)).toEqual(hashPosition(r.state.board, playerOf(pb.turn)));
+        unmakeMove(pb, u);
+        expect(pb.cells).toEqual(cells);
+        expect(packedHash(pb)).toEqual(hash);
+      }
+    }
+  });
+
+  it("lists every capture among the captures", () => {
+    for (const s of states) {
+      const pb = packBoard(s.board, s.turn);
+      const all = generateMoves(pb).map((m) => formatAction(s.board, toAction(pb, m)));
+      const captures = generateCaptures(pb).map((m) => formatAction(s.board, toAction(pb, m)));
+      expect(all).toEqual(expect.arrayContaining(captures));
+      expect(captures).toEqual(expect.arrayContaining(all.filter((t) => t.includes("x"))));
+    }
+  });
+});
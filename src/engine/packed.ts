@@ -0,0 +1,530 @@
+// src/engine/packed.ts
+import type { Board, Counter, Piece, Player } from "../game/rules";
+import type { Action } from "../game/actions";
+import { DIRS, DIR_ORDER } from "../game/types";
+import type { Coord } from "../game/types";
+import { SIDE_KEY, ZOBRIST_KEYS, kindOf, squareKeyBase } from "../game/zobrist";
+import type { ZHash } from "../game/zobrist";
+
+/**
+ * Engine-side board: one byte per square instead of nested Piece objects, changed
+ * in place with make/unmake instead of cloned for every candidate.
+ *
+ * Cell byte (0 = empty square):
+ *   bit 7     occupied
+ *   bit 0     owner (0 = Black, 1 = White), so `cell & WHITE` is the owner's Side
+ *   bit 1     king (two counters)
+ *   bit 2     key
+ *   bits 3-6  arrow: 0 = none, else DIR_ORDER index + 1
+ *
+ * Squares are indexed r * cols + c. The Zobrist hash matches `hashPosition` for the
+ * same board and side to move, so engine and game tables can share keys.
+ */
+export const OCC = 0x80;
+export const WHITE = 0x01;
+export const KING = 0x02;
+export const KEY = 0x04;
+export const DIR_SHIFT = 3;
+const DIR_MASK = 0x0f << DIR_SHIFT;
+
+/** 0 = Black, 1 = White. */
+export type Side = 0 | 1;
+
+export type Packed = {
+  rows: number;
+  cols: number;
+  cells: Uint8Array;
+  turn: Side;
+  hashHi: number;
+  hashLo: number;
+  /** Key pieces left, per Side. */
+  keys: [number, number];
+  /** King ray counts per Side and square; null after a change until next needed. */
+  rays: [Uint8Array, Uint8Array] | null;
+  /** Offset of each square's keys in the Zobrist table. */
+  keyBase: Int32Array;
+};
+
+/** `Action` with square indices, and arrow directions as DIR_ORDER indices. */
+export type PMove =
+  | { kind: "move" | "capture" | "combine"; from: number; to: number }
+  | { kind: "rotate"; at: number; dir: number; then?: PMove }
+  | { kind: "scatter"; from: number; base: number };
+
+/** What `unmakeMove` needs: changed cells as (index, old value) pairs, plus the scalars. */
+export type Undo = {
+  cells: number[];
+  turn: Side;
+  hashHi: number;
+  hashLo: number;
+  keys: [number, number];
+  rays: [Uint8Array, Uint8Array] | null;
+};
+
+const DR = DIR_ORDER.map((d) => DIRS[d][0]);
+const DC = DIR_ORDER.map((d) => DIRS[d][1]);
+
+// neighbour order of legalMovesFor, so ties break the same way as the rules code
+const NEIGH: [number, number][] = [
+  [-1, -1], [-1, 0], [-1, 1],
+  [0, -1], [0, 1],
+  [1, -1], [1, 0], [1, 1],
+];
+
+// Zobrist kind of every possible cell byte
+const KIND_OF = new Int32Array(256);
+for (let v = OCC; v < 256; v++) {
+  KIND_OF[v] = kindOf(v & WHITE, (v & KING) >> 1, (v & KEY) >> 2, (v & DIR_MASK) >> DIR_SHIFT);
+}
+
+export function sideOf(p: Player): Side {
+  return p === "Black" ? 0 : 1;
+}
+
+export function playerOf(s: Side): Player {
+  return s === 0 ? "Black" : "White";
+}
+
+/** Arrow of a cell as a DIR_ORDER index, or -1. */
+export function arrowOf(cell: number): number {
+  return ((cell & DIR_MASK) >> DIR_SHIFT) - 1;
+}
+
+function packPiece(p: Piece): number {
+  let v = OCC;
+  if (p.counters[0].owner === "White") v |= WHITE;
+  if (p.counters.length >= 2) v |= KING;
+  if (p.counters.some((c) => c.isKey)) v |= KEY;
+  if (p.arrowDir) v |= (DIR_ORDER.indexOf(p.arrowDir) + 1) << DIR_SHIFT;
+  return v;
+}
+
+function unpackPiece(v: number): Piece {
+  const owner = playerOf((v & WHITE) as Side);
+  const counters: Counter[] = [{ owner, isKey: !!(v & KEY) }];
+  if (v & KING) counters.push({ owner, isKey: false });
+  const d = arrowOf(v);
+  return d >= 0 ? { counters, arrowDir: DIR_ORDER[d] } : { counters };
+}
+
+function xorCell(pb: Packed, i: number, v: number): void {
+  if (!v) return;
+  const k = pb.keyBase[i] + KIND_OF[v] * 2;
+  pb.hashHi ^= ZOBRIST_KEYS[k];
+  pb.hashLo ^= ZOBRIST_KEYS[k + 1];
+}
+
+export function packBoard(board: Board, turn: Player): Packed {
+  const rows = board.length;
+  const cols = board[0]?.length ?? 0;
+  const pb: Packed = {
+    rows,
+    cols,
+    cells: new Uint8Array(rows * cols),
+    turn: sideOf(turn),
+    hashHi: 0,
+    hashLo: 0,
+    keys: [0, 0],
+    rays: null,
+    keyBase: new Int32Array(rows * cols),
+  };
+  if (pb.turn === 1) {
+    pb.hashHi ^= ZOBRIST_KEYS[SIDE_KEY];
+    pb.hashLo ^= ZOBRIST_KEYS[SIDE_KEY + 1];
+  }
+  for (let r = 0; r < rows; r++) {
+    for (let c = 0; c < cols; c++) {
+      const i = r * cols + c;
+      pb.keyBase[i] = squareKeyBase(r, c);
+      const p = board[r][c];
+      if (!p) continue;
+      const v = packPiece(p);
+      pb.cells[i] = v;
+      xorCell(pb, i, v);
+      if (v & KEY) pb.keys[v & WHITE]++;
+    }
+  }
+  return pb;
+}
+
+export function unpackBoard(pb: Packed): Board {
+  const board: Board = [];
+  for (let r = 0; r < pb.rows; r++) {
+    const row: (Piece | null)[] = [];
+    for (let c = 0; c < pb.cols; c++) {
+      const v = pb.cells[r * pb.cols + c];
+      row.push(v ? unpackPiece(v) : null);
+    }
+    board.push(row);
+  }
+  return board;
+}
+
+export function packedHash(pb: Packed): ZHash {
+  return { hi: pb.hashHi >>> 0, lo: pb.hashLo >>> 0 };
+}
+
+export function coordOf(pb: Packed, i: number): Coord {
+  const r = (i / pb.cols) | 0;
+  return { r, c: i - r * pb.cols };
+}
+
+export function indexOf(pb: Packed, pos: Coord): number {
+  return pos.r * pb.cols + pos.c;
+}
+
+export function toAction(pb: Packed, m: PMove): Action {
+  const at = (i: number) => coordOf(pb, i);
+  switch (m.kind) {
+    case "rotate": {
+      const a: Action = { kind: "rotate", at: at(m.at), dir: DIR_ORDER[m.dir] };
+      return m.then ? { ...a, then: toAction(pb, m.then) } : a;
+    }
+    case "scatter":
+      return { kind: "scatter", from: at(m.from), base: at(m.base) };
+    default:
+      return { kind: m.kind, from: at(m.from), to: at(m.to) };
+  }
+}
+
+export function fromAction(pb: Packed, a: Action): PMove {
+  const ix = (p: Coord) => indexOf(pb, p);
+  switch (a.kind) {
+    case "rotate": {
+      const m: PMove = { kind: "rotate", at: ix(a.at), dir: DIR_ORDER.indexOf(a.dir) };
+      return a.then ? { ...m, then: fromAction(pb, a.then) } : m;
+    }
+    case "scatter":
+      return { kind: "scatter", from: ix(a.from), base: ix(a.base) };
+    default:
+      return { kind: a.kind, from: ix(a.from), to: ix(a.to) };
+  }
+}
+
+// ---------------------------------------------------------------------------
+// Rays and values
+
+function buildRays(pb: Packed): [Uint8Array, Uint8Array] {
+  const { rows, cols, cells } = pb;
+  const rays: [Uint8Array, Uint8Array] = [new Uint8Array(cells.length), new Uint8Array(cells.length)];
+  for (let i = 0; i < cells.length; i++) {
+    const v = cells[i];
+    if (!(v & KING)) continue;
+    const d = arrowOf(v);
+    if (d < 0) continue;
+    const counts = rays[v & WHITE];
+    const r0 = (i / cols) | 0;
+    for (let r = r0 + DR[d], c = i - r0 * cols + DC[d]; r >= 0 && r < rows && c >= 0 && c < cols; r += DR[d], c += DC[d]) {
+      const j = r * cols + c;
+      counts[j]++;
+      if (cells[j]) break;
+    }
+  }
+  return rays;
+}
+
+/** Same as `valueAt`: counters ± king rays, clamped to 0..3 (0 for an empty square). */
+export function valueOf(pb: Packed, i: number): number {
+  const v = pb.cells[i];
+  if (!v) return 0;
+  const rays = pb.rays ?? (pb.rays = buildRays(pb));
+  const own = v & WHITE;
+  const val = (v & KING ? 2 : 1) + rays[own][i] - rays[own ^ 1][i];
+  return val <= 0 ? 0 : val >= 3 ? 3 : val;
+}
+
+/** King rays of `side` reaching square `i`. */
+export function raysOn(pb: Packed, i: number, side: Side): number {
+  const rays = pb.rays ?? (pb.rays = buildRays(pb));
+  return rays[side][i];
+}
+
+// ---------------------------------------------------------------------------
+// Move generation
+
+export type Targets = { moves: number[]; combines: number[]; captures: number[] };
+
+/** Port of `legalMovesFor`. */
+export function pieceTargets(pb: Packed, i: number): Targets {
+  const out: Targets = { moves: [], combines: [], captures: [] };
+  const { rows, cols, cells } = pb;
+  const me = cells[i];
+  if (!me) return out;
+  const own = me & WHITE;
+  const myVal = valueOf(pb, i);
+  const r = (i / cols) | 0;
+  const c = i - r * cols;
+
+  if (myVal >= 1) {
+    for (const [dr, dc] of NEIGH) {
+      const rr = r + dr, cc = c + dc;
+      if (rr < 0 || rr >= rows || cc < 0 || cc >= cols) continue;
+      const j = rr * cols + cc;
+      const t = cells[j];
+      if (!t) out.moves.push(j);
+      else if ((t & WHITE) !== own && valueOf(pb, j) <= myVal) out.captures.push(j);
+    }
+  }
+
+  if (myVal >= 1 && !(me & (KING | KEY))) {
+    for (const [dr, dc] of NEIGH) {
+      const rr = r + dr, cc = c + dc;
+      if (rr < 0 || rr >= rows || cc < 0 || cc >= cols) continue;
+      const j = rr * cols + cc;
+      const t = cells[j];
+      if (t && !(t & (KING | KEY)) && (t & WHITE) === own) out.combines.push(j);
+    }
+  }
+
+  const d = arrowOf(me);
+  if (me & KING && myVal >= 2 && d >= 0) {
+    if (myVal === 2) {
+      const mr = r + DR[d], mc = c + DC[d];
+      const tr = r + 2 * DR[d], tc = c + 2 * DC[d];
+      if (tr >= 0 && tr < rows && tc >= 0 && tc < cols && !cells[mr * cols + mc]) {
+        const j = tr * cols + tc;
+        const t = cells[j];
+        if (!t) out.moves.push(j);
+        else if ((t & WHITE) !== own && valueOf(pb, j) <= myVal) out.captures.push(j);
+      }
+    }
+    if (myVal >= 3) {
+      // the first square was already listed as a step
+      for (let rr = r + DR[d], cc = c + DC[d]; rr >= 0 && rr < rows && cc >= 0 && cc < cols; rr += DR[d], cc += DC[d]) {
+        const j = rr * cols + cc;
+        const first = rr === r + DR[d] && cc === c + DC[d];
+        const t = cells[j];
+        if (!t) {
+          if (!first) out.moves.push(j);
+          continue;
+        }
+        if (!first && (t & WHITE) !== own && valueOf(pb, j) <= myVal) out.captures.push(j);
+        break;
+      }
+    }
+  }
+  return out;
+}
+
+/** Port of `validateScatter`: the two landing squares, or null if the scatter is illegal. */
+export function scatterLandings(pb: Packed, from: number, base: number): [number, number] | null {
+  const { rows, cols, cells } = pb;
+  const me = cells[from];
+  const d = arrowOf(me);
+  if (!(me & KING) || d < 0) return null;
+  const myVal = valueOf(pb, from);
+  if (myVal < 2 || (myVal === 2 && base !== from)) return null;
+
+  const br = (base / cols) | 0, bc = base - br * cols;
+  const r2 = br + 2 * DR[d], c2 = bc + 2 * DC[d];
+  if (r2 < 0 || r2 >= rows || c2 < 0 || c2 >= cols) return null;
+  const l1 = (br + DR[d]) * cols + bc + DC[d];
+  const l2 = r2 * cols + c2;
+
+  const own = me & WHITE;
+  let enemySum = 0;
+  for (const l of [l1, l2]) {
+    const t = cells[l];
+    if (!t) continue;
+    if ((t & WHITE) === own) return null;
+    enemySum += valueOf(pb, l);
+  }
+  return enemySum > myVal ? null : [l1, l2];
+}
+
+/** Port of `scatterBases`. */
+export function scatterBasesOf(pb: Packed, from: number): number[] {
+  const { rows, cols, cells } = pb;
+  const me = cells[from];
+  const d = arrowOf(me);
+  if (!(me & KING) || d < 0) return [];
+  const bases = [from];
+  if (valueOf(pb, from) >= 3) {
+    const r = (from / cols) | 0;
+    for (let rr = r + DR[d], cc = from - r * cols + DC[d]; rr >= 0 && rr < rows && cc >= 0 && cc < cols; rr += DR[d], cc += DC[d]) {
+      const j = rr * cols + cc;
+      if (cells[j]) break;
+      bases.push(j);
+    }
+  }
+  return bases;
+}
+
+/** Port of `legalActionsFrom`. */
+export function legalFrom(pb: Packed, i: number, freeRotationUsed = false): PMove[] {
+  const me = pb.cells[i];
+  if (!me || (me & WHITE) !== pb.turn) return [];
+
+  const out: PMove[] = [];
+  const t = pieceTargets(pb, i);
+  for (const to of t.captures) out.push({ kind: "capture", from: i, to });
+  for (const to of t.moves) out.push({ kind: "move", from: i, to });
+  for (const to of t.combines) out.push({ kind: "combine", from: i, to });
+
+  const d = arrowOf(me);
+  const v = valueOf(pb, i);
+  if (me & KING && d >= 0 && v >= 2) {
+    if (v < 3 || !freeRotationUsed) {
+      for (let dir = 0; dir < 8; dir++) {
+        if (dir !== d) out.push({ kind: "rotate", at: i, dir });
+      }
+    }
+    for (const base of scatterBasesOf(pb, i)) {
+      if (scatterLandings(pb, i, base)) out.push({ kind: "scatter", from: i, base });
+    }
+  }
+  return out;
+}
+
+/** Port of `generateTurns`: complete turns, free rotations paired with the same king's follow-ups. */
+export function generateMoves(pb: Packed): PMove[] {
+  const out: PMove[] = [];
+  for (let i = 0; i < pb.cells.length; i++) {
+    if (!pb.cells[i]) continue;
+    for (const m of legalFrom(pb, i)) {
+      if (m.kind !== "rotate" || valueOf(pb, i) < 3) {
+        out.push(m);
+        continue;
+      }
+      const u = makeMove(pb, m);
+      for (const then of legalFrom(pb, i, true)) out.push({ ...m, then });
+      unmakeMove(pb, u);
+    }
+  }
+  return out;
+}
+
+// captures and capturing scatters of the piece on `i`
+function capturesFrom(pb: Packed, i: number, out: PMove[], wrap: (m: PMove) => PMove): void {
+  const me = pb.cells[i];
+  const t = pieceTargets(pb, i);
+  for (const to of t.captures) out.push(wrap({ kind: "capture", from: i, to }));
+  if (!(me & KING) || arrowOf(me) < 0 || valueOf(pb, i) < 2) return;
+  for (const base of scatterBasesOf(pb, i)) {
+    const l = scatterLandings(pb, i, base);
+    if (l && (pb.cells[l[0]] || pb.cells[l[1]])) out.push(wrap({ kind: "scatter", from: i, base }));
+  }
+}
+
+/**
+ * The subset of `generateMoves` that takes something: captures, scatters landing on
+ * an enemy, and free rotations whose follow-up is one of those (for quiescence search).
+ */
+export function generateCaptures(pb: Packed): PMove[] {
+  const out: PMove[] = [];
+  for (let i = 0; i < pb.cells.length; i++) {
+    const me = pb.cells[i];
+    if (!me || (me & WHITE) !== pb.turn) continue;
+    capturesFrom(pb, i, out, (m) => m);
+
+    const d = arrowOf(me);
+    if (!(me & KING) || d < 0 || valueOf(pb, i) < 3) continue;
+    for (let dir = 0; dir < 8; dir++) {
+      if (dir === d) continue;
+      const rot: PMove = { kind: "rotate", at: i, dir };
+      const u = makeMove(pb, rot);
+      capturesFrom(pb, i, out, (then) => ({ ...rot, then }));
+      unmakeMove(pb, u);
+    }
+  }
+  return out;
+}
+
+// ---------------------------------------------------------------------------
+// Make / unmake
+
+function setCell(pb: Packed, i: number, v: number, u: Undo): void {
+  const old = pb.cells[i];
+  if (old === v) return;
+  u.cells.push(i, old);
+  xorCell(pb, i, old);
+  xorCell(pb, i, v);
+  if (old & KEY) pb.keys[old & WHITE]--;
+  if (v & KEY) pb.keys[v & WHITE]++;
+  pb.cells[i] = v;
+}
+
+function dirIndex(pb: Packed, from: number, to: number): number {
+  const a = coordOf(pb, from), b = coordOf(pb, to);
+  const dr = Math.sign(b.r - a.r), dc = Math.sign(b.c - a.c);
+  for (let d = 0; d < 8; d++) if (DR[d] === dr && DC[d] === dc) return d;
+  return -1;
+}
+
+function step(pb: Packed, m: PMove, u: Undo): void {
+  const mover = pb.turn;
+  const { cells } = pb;
+  switch (m.kind) {
+    case "move":
+    case "capture":
+      setCell(pb, m.to, cells[m.from], u);
+      setCell(pb, m.from, 0, u);
+      break;
+
+    case "combine":
+      setCell(pb, m.to, OCC | mover | KING | ((dirIndex(pb, m.from, m.to) + 1) << DIR_SHIFT), u);
+      setCell(pb, m.from, 0, u);
+      break;
+
+    case "rotate": {
+      const free = valueOf(pb, m.at) >= 3;
+      setCell(pb, m.at, (cells[m.at] & ~DIR_MASK) | ((m.dir + 1) << DIR_SHIFT), u);
+      pb.rays = null;
+      // a free rotation keeps the turn; its follow-up (if any) ends it
+      if (free) {
+        if (m.then) step(pb, m.then, u);
+        return;
+      }
+      break;
+    }
+
+    case "scatter": {
+      const [l1, l2] = scatterLandings(pb, m.from, m.base)!;
+      setCell(pb, m.from, 0, u);
+      setCell(pb, l1, OCC | mover, u);
+      setCell(pb, l2, OCC | mover, u);
+      break;
+    }
+  }
+
+  pb.rays = null;
+  // like the reducer, the winner stays "to move" in the final position
+  if (pb.keys[mover ^ 1] > 0) {
+    pb.turn = (mover ^ 1) as Side;
+    pb.hashHi ^= ZOBRIST_KEYS[SIDE_KEY];
+    pb.hashLo ^= ZOBRIST_KEYS[SIDE_KEY + 1];
+  }
+}
+
+/**
+ * Play `m` (assumed legal, e.g. from `generateMoves`) in place. Pass the result to
+ * `unmakeMove` to take it back; make/unmake pairs must nest.
+ */
+export function makeMove(pb: Packed, m: PMove): Undo {
+  const u: Undo = {
+    cells: [],
+    turn: pb.turn,
+    hashHi: pb.hashHi,
+    hashLo: pb.hashLo,
+    keys: [pb.keys[0], pb.keys[1]],
+    rays: pb.rays,
+  };
+  step(pb, m, u);
+  return u;
+}
+
+export function unmakeMove(pb: Packed, u: Undo): void {
+  for (let k = u.cells.length - 2; k >= 0; k -= 2) pb.cells[u.cells[k]] = u.cells[k + 1];
+  pb.turn = u.turn;
+  pb.hashHi = u.hashHi;
+  pb.hashLo = u.hashLo;
+  pb.keys = u.keys;
+  pb.rays = u.rays;
+}
+
+/** The side that has captured all enemy keys, if any. */
+export function winnerOfPacked(pb: Packed): Side | null {
+  if (pb.keys[1] === 0) return 0;
+  if (pb.keys[0] === 0) return 1;
+  return null;
+}
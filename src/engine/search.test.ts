@@ -0,0 +1,86 @@
+import { describe, expect, it } from "vitest";
+import { position } from "../test/helpers";
+import { formatAction, parseAction } from "../game/notation";
+import { applyAction, generateTurns, initialState } from "../game/reducer";
+import { hashKey } from "../game/zobrist";
+import { fromAction, packBoard } from "./packed";
+import { WIN, captureWeight, searchBest } from "./search";
+
+// Black takes White's only key in three plies, with no capture on the way
+const WIN_IN_3 = position("3W/1b2/1b2/3B b");
+const LIMITS = { maxDepth: 5, timeMs: 5000 };
+
+describe("searchBest", () => {
+  it("takes the last enemy key when it can", () => {
+    const { board, turn } = position("4/1w2/2W1/1B1b b");
+    const r = searchBest(board, turn, LIMITS);
+    expect(formatAction(board, r.move!)).toBe("b1xc2");
+    expect(r.score).toBe(WIN - 1);
+  });
+
+  it("converts a forced key capture with both sides searching", () => {
+    let s = initialState(WIN_IN_3.board, WIN_IN_3.turn);
+    for (let ply = 0; ply < 3 && !s.result; ply++) {
+      const next = applyAction(s, searchBest(s.board, s.turn, LIMITS).move!);
+      if ("error" in next) throw new Error(next.error);
+      s = next.state;
+    }
+    expect(s.result).toEqual({ kind: "win", winner: "Black", reason: "keys-captured" });
+  });
+});
+
+describe("quiescence", () => {
+  // c3xb2 wins a single and scores best statically, but White's key on c1 takes Black's only key back
+  const POISONED = position("5/1b3/2B2/1w3/2W2 b");
+
+  it("sees the recapture past a one-ply horizon", () => {
+    const { board, turn } = POISONED;
+    let s = initialState(board, turn);
+    for (const text of ["c3xb2", "c1xb2"]) {
+      const a = parseAction(s.board, s.turn, text);
+      const next = "error" in a ? a : applyAction(s, a);
+      if ("error" in next) throw new Error(next.error);
+      s = next.state;
+    }
+    expect(s.result).toEqual({ kind: "win", winner: "White", reason: "keys-captured" });
+
+    const r = searchBest(board, turn, { maxDepth: 1, timeMs: 5000 });
+    expect(formatAction(board, r.move!)).not.toBe("c3xb2");
+    expect(r.score).toBeGreaterThan(-WIN / 2);
+  });
+
+  it("weighs captures by victim, keys first", () => {
+    const { board, turn } = position("4/4/1wW1/1B2 b");
+    const pb = packBoard(board, turn);
+    const weight = (text: string) => {
+      const a = parseAction(board, turn, text);
+      if ("error" in a) throw new Error(a.error);
+      return captureWeight(pb, fromAction(pb, a));
+    };
+    expect(weight("b1xc2")).toBeGreaterThan(weight("b1xb2"));
+    expect(weight("b1xb2")).toBeGreaterThan(0);
+    expect(weight("b1-a2")).toBe(0);
+  });
+});
+
+describe("searchBest and the game's history", () => {
+  it("finds the win from a fresh start", () => {
+    expect(searchBest(WIN_IN_3.board, WIN_IN_3.turn, LIMITS).score).toBe(WIN - 3);
+  });
+
+  it("sees the no-progress draw coming first", () => {
+    const r = searchBest(WIN_IN_3.board, WIN_IN_3.turn, LIMITS, undefined, { seen: {}, noProgress: 79 });
+    expect(r.score).toBeCloseTo(0);
+  });
+
+  it("scores a move that completes a repetition of the game as a draw", () => {
+    const s = initialState(WIN_IN_3.board, WIN_IN_3.turn);
+    const seen: Record<string, number> = {};
+    for (const move of generateTurns(s.board, s.turn)) {
+      const next = applyAction(s, move);
+      if (!("error" in next)) seen[hashKey(next.state.hash)] = 2;
+    }
+    const r = searchBest(WIN_IN_3.board, WIN_IN_3.turn, LIMITS, undefined, { seen, noProgress: 0 });
+    expect(r.score).toBeCloseTo(0);
+  });
+});
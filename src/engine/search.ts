@@ -0,0 +1,390 @@
+// src/engine/search.ts
+import type { Board, Player } from "../game/rules";
+import type { Action } from "../game/actions";
+import type { GameState } from "../game/reducer";
+import { DRAW_RULES } from "../game/result";
+import { parseHashKey } from "../game/zobrist";
+import type { AIMove } from "./aiTypes";
+import {
+  KEY,
+  KING,
+  WHITE,
+  generateCaptures,
+  generateMoves,
+  makeMove,
+  packBoard,
+  scatterLandings,
+  toAction,
+  unmakeMove,
+  winnerOfPacked,
+} from "./packed";
+import type { PMove, Packed, Undo } from "./packed";
+import { evaluateBoard } from "./eval";
+import { EVAL_WEIGHTS } from "./weights";
+import type { EvalParams } from "./evalParams";
+
+/**
+ * Iterative-deepening negamax with alpha-beta on the packed board.
+ *
+ * Move order at each node: the transposition-table move, then captures (and
+ * capturing scatters) by victim — keys, then kings, then singles — then the two
+ * killer moves of the ply, then quiet moves by history score. Scores are from the
+ * side to move's point of view; a win is worth WIN minus the plies needed to reach it.
+ *
+ * At the horizon a quiescence search keeps playing captures and capturing scatters
+ * until the position is quiet: taking a piece changes the values of everything its
+ * rays touched, so the static evaluation is only trusted when nothing hangs.
+ *
+ * The draw rules apply inside the tree too: a position already on the line, or one
+ * the game has seen often enough that reaching it again ends the game, scores 0, and
+ * so does a line that runs out the no-progress count the game started from.
+ *
+ * The handicaps in SearchLimits weaken play on purpose (difficulty levels). Noise is
+ * a function of the position hash and a per-search seed, so it stays consistent with
+ * the transposition table within one search.
+ */
+export type SearchLimits = {
+  /** Deepest iteration to start (default 32). */
+  maxDepth?: number;
+  /** Wall-clock budget in ms (default 1000). */
+  timeMs?: number;
+  /** Node budget (default unlimited). */
+  maxNodes?: number;
+  /** Handicap: leaf evaluations are off by up to ± this much (default 0). */
+  noise?: number;
+  /** Handicap: chance of playing a random other move instead of the best (default 0). */
+  blunderRate?: number;
+  /** Evaluation weights (default EVAL_WEIGHTS). */
+  params?: EvalParams;
+};
+
+/**
+ * The game before the searched position, for the draw rules: how often each
+ * position occurred (by hashKey) and the plies since the last capture.
+ */
+export type GameHistory = Pick<GameState, "seen" | "noProgress">;
+
+export type SearchResult = {
+  move: AIMove | null;
+  /** Score of `move` for the side to move. */
+  score: number;
+  /** Deepest fully searched iteration (0 if the budget ran out inside the first). */
+  depth: number;
+  /** Principal variation, starting with `move`. */
+  pv: Action[];
+  nodes: number;
+  elapsedMs: number;
+};
+
+export const WIN = 100000;
+const MAX_PLY = 64;
+/** Capture plies the quiescence search may add below the horizon. */
+const QS_DEPTH = 6;
+const INF = WIN + 1;
+
+const TT_SIZE = 1 << 16;
+const EXACT = 0, LOWER = 1, UPPER = 2;
+type TTEntry = { hi: number; lo: number; depth: number; score: number; flag: number; move: PMove | null };
+
+type Searcher = {
+  pb: Packed;
+  nodes: number;
+  deadline: number;
+  maxNodes: number;
+  stopped: boolean;
+  params: EvalParams;
+  noise: number;
+  seed: number;
+  tt: (TTEntry | undefined)[];
+  killers: (PMove | null)[][];
+  history: Map<number, number>;
+  /** Hashes along the current line, for repetition. */
+  path: number[];
+  /** Hashes (hi, lo pairs) the game has seen enough times that one more occurrence draws. */
+  repeats: number[];
+  /** Plies without a capture at each ply of the current line (index 0 is the root). */
+  quiet: number[];
+};
+
+function movesEqual(a: PMove, b: PMove): boolean {
+  if (a.kind !== b.kind) return false;
+  switch (a.kind) {
+    case "rotate": {
+      const o = b as typeof a;
+      if (a.at !== o.at || a.dir !== o.dir || !a.then !== !o.then) return false;
+      return !a.then || movesEqual(a.then, o.then!);
+    }
+    case "scatter":
+      return a.from === (b as typeof a).from && a.base === (b as typeof a).base;
+    default:
+      return a.from === (b as typeof a).from && a.to === (b as typeof a).to;
+  }
+}
+
+// history table key: kind, origin and target (direction for rotations)
+function historyKey(pb: Packed, m: PMove): number {
+  const n = pb.cells.length;
+  switch (m.kind) {
+    case "move": return m.from * n + m.to;
+    case "capture": return (n + m.from) * n + m.to;
+    case "combine": return (2 * n + m.from) * n + m.to;
+    case "scatter": return (3 * n + m.from) * n + m.base;
+    case "rotate": return m.then ? historyKey(pb, m.then) : (4 * n + m.at) * n + m.dir;
+  }
+}
+
+function victimScore(cell: number): number {
+  if (!cell) return 0;
+  return cell & KEY ? 3 : cell & KING ? 2 : 1;
+}
+
+/** What `m` takes: 0 for a quiet move, otherwise a rough victim weight. */
+export function captureWeight(pb: Packed, m: PMove): number {
+  switch (m.kind) {
+    case "capture":
+      return victimScore(pb.cells[m.to]);
+    case "scatter": {
+      const l = scatterLandings(pb, m.from, m.base);
+      return l ? victimScore(pb.cells[l[0]]) + victimScore(pb.cells[l[1]]) : 0;
+    }
+    case "rotate": {
+      if (!m.then) return 0;
+      // the follow-up's targets depend on the new arrow
+      const u = makeMove(pb, { kind: "rotate", at: m.at, dir: m.dir });
+      const w = captureWeight(pb, m.then);
+      unmakeMove(pb, u);
+      return w;
+    }
+    default:
+      return 0;
+  }
+}
+
+function orderMoves(s: Searcher, moves: PMove[], ply: number, ttMove: PMove | null): PMove[] {
+  const killers = s.killers[ply];
+  const keyed = moves.map((m) => {
+    let k: number;
+    const cap = captureWeight(s.pb, m);
+    if (ttMove && movesEqual(m, ttMove)) k = 1e9;
+    else if (cap) k = 1e8 + cap;
+    else if (killers[0] && movesEqual(m, killers[0])) k = 9e7;
+    else if (killers[1] && movesEqual(m, killers[1])) k = 8e7;
+    else k = s.history.get(historyKey(s.pb, m)) ?? 0;
+    return { m, k };
+  });
+  keyed.sort((a, b) => b.k - a.k);
+  return keyed.map((x) => x.m);
+}
+
+function outOfBudget(s: Searcher): boolean {
+  if (s.nodes >= s.maxNodes || ((s.nodes & 1023) === 0 && Date.now() >= s.deadline)) s.stopped = true;
+  return s.stopped;
+}
+
+// win scores are stored relative to the node, so they stay right at any ply
+function toTT(score: number, ply: number): number {
+  return score > WIN - MAX_PLY ? score + ply : score < -(WIN - MAX_PLY) ? score - ply : score;
+}
+function fromTT(score: number, ply: number): number {
+  return score > WIN - MAX_PLY ? score - ply : score < -(WIN - MAX_PLY) ? score + ply : score;
+}
+
+// fixed pseudo-random offset in [-noise, noise] for this position, from Black's side
+function jitter(s: Searcher, pb: Packed): number {
+  let x = Math.imul(pb.hashHi ^ s.seed, 0x9e3779b1) ^ pb.hashLo;
+  x = Math.imul(x ^ (x >>> 15), 0x85ebca6b);
+  x ^= x >>> 13;
+  return s.noise * (((x >>> 0) / 0x100000000) * 2 - 1);
+}
+
+// captures only, with stand-pat: the side to move may also decline to take anything
+function quiesce(s: Searcher, alpha: number, beta: number, ply: number, qdepth: number): number {
+  const { pb } = s;
+  let stand = evaluateBoard(pb, pb.turn, undefined, s.params);
+  if (s.noise) stand += pb.turn === 0 ? jitter(s, pb) : -jitter(s, pb);
+  if (stand >= beta || qdepth <= 0 || ply >= MAX_PLY) return stand;
+  if (stand > alpha) alpha = stand;
+
+  const moves = generateCaptures(pb)
+    .map((m) => ({ m, k: captureWeight(pb, m) }))
+    .sort((a, b) => b.k - a.k);
+  for (const { m } of moves) {
+    s.nodes++;
+    if (outOfBudget(s)) return 0;
+    const mover = pb.turn;
+    const u = makeMove(pb, m);
+    const score = winnerOfPacked(pb) === mover ? WIN - ply - 1 : -quiesce(s, -beta, -alpha, ply + 1, qdepth - 1);
+    unmakeMove(pb, u);
+    if (s.stopped) return 0;
+    if (score >= beta) return score;
+    if (score > alpha) alpha = score;
+  }
+  return alpha;
+}
+
+// whether the move behind `u` took something: only captures change enemy squares
+function tookPiece(u: Undo, mover: number): boolean {
+  for (let k = 1; k < u.cells.length; k += 2) {
+    const old = u.cells[k];
+    if (old && (old & WHITE) !== mover) return true;
+  }
+  return false;
+}
+
+function negamax(s: Searcher, depth: number, alpha: number, beta: number, ply: number, pv: PMove[]): number {
+  const { pb } = s;
+  s.nodes++;
+  if (outOfBudget(s)) return 0;
+
+  // a position already on this line is a draw (the game would end by repetition),
+  // as is one that completes a repetition of the game's, or the no-progress limit
+  if (ply > 0) {
+    for (let k = s.path.length - 2; k >= 0; k -= 2) {
+      if (s.path[k] === pb.hashHi && s.path[k + 1] === pb.hashLo) return 0;
+    }
+    for (let k = 0; k < s.repeats.length; k += 2) {
+      if (s.repeats[k] === pb.hashHi && s.repeats[k + 1] === pb.hashLo) return 0;
+    }
+    if (s.quiet[ply] >= DRAW_RULES.noProgressPlies) return 0;
+  }
+  if (depth <= 0 || ply >= MAX_PLY) return quiesce(s, alpha, beta, ply, QS_DEPTH);
+
+  const slot = pb.hashLo & (TT_SIZE - 1);
+  const e = s.tt[slot];
+  const hit = e && e.hi === pb.hashHi && e.lo === pb.hashLo ? e : null;
+  if (hit && ply > 0 && hit.depth >= depth) {
+    const score = fromTT(hit.score, ply);
+    if (hit.flag === EXACT) return score;
+    if (hit.flag === LOWER && score >= beta) return score;
+    if (hit.flag === UPPER && score <= alpha) return score;
+  }
+
+  const moves = generateMoves(pb);
+  if (!moves.length) return 0; // no legal action: draw
+
+  const alphaOrig = alpha;
+  let best = -INF;
+  let bestMove: PMove | null = null;
+  const child: PMove[] = [];
+
+  s.path.push(pb.hashHi, pb.hashLo);
+  for (const m of orderMoves(s, moves, ply, hit?.move ?? null)) {
+    const mover = pb.turn;
+    const u = makeMove(pb, m);
+    s.quiet[ply + 1] = tookPiece(u, mover) ? 0 : s.quiet[ply] + 1;
+    let score: number;
+    child.length = 0;
+    if (winnerOfPacked(pb) === mover) score = WIN - ply - 1;
+    else score = -negamax(s, depth - 1, -beta, -alpha, ply + 1, child);
+    unmakeMove(pb, u);
+    if (s.stopped) break;
+
+    if (score > best) {
+      best = score;
+      bestMove = m;
+      if (score > alpha) {
+        alpha = score;
+        pv.length = 0;
+        pv.push(m, ...child);
+      }
+    }
+    if (alpha >= beta) {
+      if (!captureWeight(pb, m)) {
+        const killers = s.killers[ply];
+        if (!killers[0] || !movesEqual(killers[0], m)) {
+          killers[1] = killers[0];
+          killers[0] = m;
+        }
+        const hk = historyKey(pb, m);
+        s.history.set(hk, (s.history.get(hk) ?? 0) + depth * depth);
+      }
+      break;
+    }
+  }
+  s.path.length -= 2;
+  if (s.stopped) return 0;
+
+  const flag = best <= alphaOrig ? UPPER : best >= beta ? LOWER : EXACT;
+  if (!e || e.depth <= depth || !hit) {
+    s.tt[slot] = { hi: pb.hashHi, lo: pb.hashLo, depth, score: toTT(best, ply), flag, move: bestMove };
+  }
+  return best;
+}
+
+/**
+ * Best move for `side` within `limits`. `onIteration` is called after every
+ * completed depth with the result so far (for progress displays). `game` is the
+ * history behind `board` (none: the position is a fresh start).
+ */
+export function searchBest(
+  board: Board,
+  side: Player,
+  limits: SearchLimits = {},
+  onIteration?: (progress: SearchResult) => void,
+  game?: GameHistory
+): SearchResult {
+  const start = Date.now();
+  const repeats: number[] = [];
+  for (const [key, n] of Object.entries(game?.seen ?? {})) {
+    if (n < DRAW_RULES.repetitions - 1) continue;
+    const h = parseHashKey(key);
+    repeats.push(h.hi | 0, h.lo | 0);
+  }
+  const s: Searcher = {
+    pb: packBoard(board, side),
+    nodes: 0,
+    deadline: start + (limits.timeMs ?? 1000),
+    maxNodes: limits.maxNodes ?? Infinity,
+    stopped: false,
+    params: limits.params ?? EVAL_WEIGHTS,
+    noise: limits.noise ?? 0,
+    seed: (Math.random() * 0x100000000) >>> 0,
+    tt: new Array(TT_SIZE),
+    killers: Array.from({ length: MAX_PLY + 1 }, () => [null, null]),
+    history: new Map(),
+    path: [],
+    repeats,
+    quiet: [game?.noProgress ?? 0],
+  };
+
+  let pv: PMove[] = [];
+  let score = 0;
+  let depth = 0;
+  const maxDepth = Math.min(limits.maxDepth ?? 32, MAX_PLY);
+  for (let d = 1; d <= maxDepth; d++) {
+    const line: PMove[] = [];
+    const sc = negamax(s, d, -INF, INF, 0, line);
+    if (s.stopped) {
+      // out of budget: keep the last complete iteration, or the best root move so far
+      if (!depth && line.length) pv = line.slice(0, 1);
+      break;
+    }
+    pv = line;
+    score = sc;
+    depth = d;
+    onIteration?.(resultOf(s, pv, score, depth, start));
+    if (Math.abs(score) > WIN - MAX_PLY) break; // forced result found
+  }
+  if (!pv.length) {
+    // not even one root move finished: play the first in search order
+    const moves = generateMoves(s.pb);
+    if (moves.length) pv = [orderMoves(s, moves, 0, null)[0]];
+  }
+  if (pv.length && limits.blunderRate && Math.random() < limits.blunderRate) {
+    const others = generateMoves(s.pb).filter((m) => !movesEqual(m, pv[0]));
+    if (others.length) pv = [others[Math.floor(Math.random() * others.length)]];
+  }
+
+  return resultOf(s, pv, score, depth, start);
+}
+
+function resultOf(s: Searcher, pv: PMove[], score: number, depth: number, start: number): SearchResult {
+  return {
+    move: pv.length ? { ...toAction(s.pb, pv[0]), score } : null,
+    score,
+    depth,
+    pv: pv.map((m) => toAction(s.pb, m)),
+    nodes: s.nodes,
+    elapsedMs: Date.now() - start,
+  };
+}
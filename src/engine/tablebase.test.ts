@@ -0,0 +1,38 @@
+import { describe, expect, it } from "vitest";
+import { position } from "../test/helpers";
+import { DRAW_RULES } from "../game/result";
+import { WIN, searchBest } from "./search";
+import { decodeTablebase, encodeTablebase, probe, provideTablebase, tablebaseResult } from "./tablebase";
+import { generateTablebase } from "./tablebaseGen";
+
+// every 4×4 position with at most three counters: well under a second to build
+const TB = generateTablebase(4, 4, 3);
+
+// Black's key and single against White's lone key: Black takes it in five plies
+const WIN_IN_5 = position("W3/4/1b2/3B b");
+
+describe("tablebase", () => {
+  it("reads back what it encodes", () => {
+    expect(decodeTablebase(encodeTablebase(TB))).toEqual(TB);
+  });
+
+  it("knows short wins, losses and draws", () => {
+    const adjacent = position("4/4/2W1/1B2 b");
+    expect(probe(TB, adjacent.board, adjacent.turn)).toEqual({ outcome: "win", plies: 1 });
+    expect(probe(TB, WIN_IN_5.board, WIN_IN_5.turn)).toEqual({ outcome: "win", plies: 5 });
+    const bare = position("3W/4/4/wB2 b");
+    expect(probe(TB, bare.board, bare.turn)).toEqual({ outcome: "draw", plies: 0 });
+  });
+
+  it("agrees with a search deep enough to see the win", () => {
+    expect(searchBest(WIN_IN_5.board, WIN_IN_5.turn, { maxDepth: 6, timeMs: 10000 }).score).toBe(WIN - 5);
+  });
+
+  it("leaves a win the no-progress draw would cut short to the search", () => {
+    provideTablebase(TB);
+    const { board, turn } = WIN_IN_5;
+    expect(tablebaseResult(board, turn)?.score).toBe(WIN - 5);
+    expect(tablebaseResult(board, turn, { seen: {}, noProgress: DRAW_RULES.noProgressPlies - 5 })?.score).toBe(WIN - 5);
+    expect(tablebaseResult(board, turn, { seen: {}, noProgress: DRAW_RULES.noProgressPlies - 4 })).toBeNull();
+  });
+});
@@ -0,0 +1,279 @@
+// src/engine/tablebase.ts
+import type { Board, Player } from "../game/rules";
+import type { Action } from "../game/actions";
+import { KEY, KING, WHITE, arrowOf, generateMoves, makeMove, packBoard, toAction, unmakeMove, winnerOfPacked } from "./packed";
+import type { PMove, Packed } from "./packed";
+import { DRAW_RULES } from "../game/result";
+import { WIN } from "./search";
+import type { GameHistory, SearchResult } from "./search";
+
+/**
+ * Endgame tablebases: the exact outcome, with best play, of every position with
+ * few counters, so the engine can play those endings perfectly.
+ *
+ * A table covers one layout: how many key pieces, plain singles and kings each
+ * side has (e.g. "110100": Black key + single, White key). Its entries are
+ * indexed by the square of every piece (pieces of one kind in ascending square
+ * order; other orders are unused), each king's arrow and the side to move. An
+ * entry is one byte, from the side to move's point of view:
+ *   0        draw (neither side can force the last key)
+ *   1..127   win: the last enemy key falls in that many plies
+ *   129..255 loss in (value − 128) plies
+ *   UNUSED   not a position (overlapping pieces, or a non-canonical order)
+ * Draw rules on repetition and plies without capture are not modelled. The
+ * build (scripts/tablebase.ts) fails if any win is longer than the no-progress
+ * draw, and `tablebaseResult` leaves positions to the search when a win or loss
+ * would not finish inside the game's remaining plies without capture.
+ *
+ * File format (one gzip-compressed file per board size, public/tablebase/
+ * `<rows>x<cols>.ntbz`); inside, little-endian:
+ *   "NTB1", rows u8, cols u8, table count u16,
+ *   per table: layout key (6 ASCII digits), entry count u32, byte length u32,
+ *   then the entries run-length encoded as (value u8, run length varint) pairs.
+ * `encodeTablebase`/`decodeTablebase` handle the inner bytes. The generator
+ * lives in tablebaseGen.ts (entry point: scripts/tablebase.ts).
+ */
+export type Tablebase = {
+  rows: number;
+  cols: number;
+  /** Layout key → entries. */
+  tables: Map<string, Uint8Array>;
+};
+
+export type TBVerdict = { outcome: "win" | "loss" | "draw"; plies: number };
+
+export const UNUSED = 128;
+export const MAX_PLIES = 127;
+
+const MAGIC = "NTB1";
+
+/** Table key and entry index of the position in `pb` (null if some piece fits no layout). */
+export function positionIndex(pb: Packed): { key: string; index: number } | null {
+  const n = pb.cells.length;
+  // squares per class: Black keys, singles, kings, then the same for White
+  const classes: number[][] = [[], [], [], [], [], []];
+  for (let i = 0; i < n; i++) {
+    const v = pb.cells[i];
+    if (!v) continue;
+    const base = (v & WHITE) * 3;
+    if (v & KEY) {
+      if (v & KING) return null;
+      classes[base].push(i);
+    } else if (v & KING) {
+      if (arrowOf(v) < 0) return null;
+      classes[base + 2].push(i);
+    } else {
+      classes[base + 1].push(i);
+    }
+  }
+
+  let index = 0;
+  let mult = 1;
+  for (const squares of classes) {
+    for (const sq of squares) {
+      index += sq * mult;
+      mult *= n;
+    }
+  }
+  for (const k of [2, 5]) {
+    for (const sq of classes[k]) {
+      index += arrowOf(pb.cells[sq]) * mult;
+      mult *= 8;
+    }
+  }
+  index += pb.turn * mult;
+  return { key: classes.map((c) => c.length).join(""), index };
+}
+
+/** Raw entry for the position in `pb`, or null if no loaded table covers it. */
+export function probeEntry(tb: Tablebase, pb: Packed): number | null {
+  if (pb.rows !== tb.rows || pb.cols !== tb.cols) return null;
+  const at = positionIndex(pb);
+  if (!at) return null;
+  const table = tb.tables.get(at.key);
+  if (!table) return null;
+  const v = table[at.index];
+  return v === UNUSED ? null : v;
+}
+
+export function verdictOf(v: number): TBVerdict {
+  if (v === 0) return { outcome: "draw", plies: 0 };
+  return v < UNUSED ? { outcome: "win", plies: v } : { outcome: "loss", plies: v - UNUSED };
+}
+
+/** Outcome for the side to move, or null when the position is not in the tablebase. */
+export function probe(tb: Tablebase, board: Board, turn: Player): TBVerdict | null {
+  const v = probeEntry(tb, packBoard(board, turn));
+  return v === null ? null : verdictOf(v);
+}
+
+// how good a move's resulting entry is for the mover: fastest win, then draw, then slowest loss
+function moveRank(v: number | "won"): number {
+  if (v === "won") return 1000;
+  if (v === 0) return 0;
+  return v > UNUSED ? 1000 - (v - UNUSED) : -1000 + v;
+}
+
+function bestPackedMove(tb: Tablebase, pb: Packed): { m: PMove; rank: number } | null {
+  let best: { m: PMove; rank: number } | null = null;
+  for (const m of generateMoves(pb)) {
+    const mover = pb.turn;
+    const u = makeMove(pb, m);
+    const v = winnerOfPacked(pb) === mover ? "won" : probeEntry(tb, pb);
+    unmakeMove(pb, u);
+    if (v === null) return null; // some reply leaves the tablebase
+    const rank = moveRank(v);
+    if (!best || rank > best.rank) best = { m, rank };
+  }
+  return best;
+}
+
+/**
+ * The tablebase move for the side to move (fastest win, else a draw, else the
+ * longest defence), with the verdict and the best line from here (up to
+ * `maxLine` plies). Null when the position or one of its replies is not covered.
+ */
+export function tablebaseMove(
+  tb: Tablebase,
+  board: Board,
+  turn: Player,
+  maxLine = 24
+): { action: Action; verdict: TBVerdict; line: Action[] } | null {
+  const pb = packBoard(board, turn);
+  const v = probeEntry(tb, pb);
+  if (v === null) return null;
+  const line: Action[] = [];
+  const undos = [];
+  while (line.length < maxLine && winnerOfPacked(pb) === null) {
+    const best = bestPackedMove(tb, pb);
+    if (!best) break;
+    line.push(toAction(pb, best.m));
+    undos.push(makeMove(pb, best.m));
+  }
+  for (let i = undos.length - 1; i >= 0; i--) unmakeMove(pb, undos[i]);
+  return line.length ? { action: line[0], verdict: verdictOf(v), line } : null;
+}
+
+// ---------------------------------------------------------------------------
+// File format
+
+function writeVarint(out: number[], x: number): void {
+  while (x >= 0x80) {
+    out.push((x & 0x7f) | 0x80);
+    x = Math.floor(x / 0x80);
+  }
+  out.push(x);
+}
+
+export function encodeTablebase(tb: Tablebase): Uint8Array {
+  const out: number[] = [...MAGIC].map((ch) => ch.charCodeAt(0));
+  out.push(tb.rows, tb.cols, tb.tables.size & 0xff, tb.tables.size >> 8);
+  const u32 = (x: number) => out.push(x & 0xff, (x >>> 8) & 0xff, (x >>> 16) & 0xff, x >>> 24);
+  for (const [key, entries] of tb.tables) {
+    const body: number[] = [];
+    for (let i = 0; i < entries.length; ) {
+      let j = i + 1;
+      while (j < entries.length && entries[j] === entries[i]) j++;
+      body.push(entries[i]);
+      writeVarint(body, j - i);
+      i = j;
+    }
+    for (const ch of key) out.push(ch.charCodeAt(0));
+    u32(entries.length);
+    u32(body.length);
+    for (const b of body) out.push(b);
+  }
+  return Uint8Array.from(out);
+}
+
+/** Parse a tablebase file; null if the bytes are not one (wrong magic or truncated). */
+export function decodeTablebase(bytes: Uint8Array): Tablebase | null {
+  if (bytes.length < 8 || String.fromCharCode(...bytes.subarray(0, 4)) !== MAGIC) return null;
+  const tb: Tablebase = { rows: bytes[4], cols: bytes[5], tables: new Map() };
+  const count = bytes[6] | (bytes[7] << 8);
+  const u32 = (at: number) => (bytes[at] | (bytes[at + 1] << 8) | (bytes[at + 2] << 16) | (bytes[at + 3] << 24)) >>> 0;
+  let p = 8;
+  for (let t = 0; t < count; t++) {
+    if (p + 14 > bytes.length) return null;
+    const key = String.fromCharCode(...bytes.subarray(p, p + 6));
+    const size = u32(p + 6);
+    const end = p + 14 + u32(p + 10);
+    if (end > bytes.length) return null;
+    const entries = new Uint8Array(size);
+    let i = 0;
+    for (p += 14; p < end; ) {
+      const v = bytes[p++];
+      let run = 0;
+      for (let shift = 1; ; shift *= 0x80) {
+        const b = bytes[p++];
+        run += (b & 0x7f) * shift;
+        if (b < 0x80) break;
+      }
+      entries.fill(v, i, i + run);
+      i += run;
+    }
+    tb.tables.set(key, entries);
+  }
+  return tb;
+}
+
+// tablebases of this thread by board size: fetched (or handed over) at most once, then kept
+const loaded = new Map<string, Tablebase | null>();
+const loading = new Map<string, Promise<Tablebase | null>>();
+
+function sizeKey(rows: number, cols: number): string {
+  return `${rows}x${cols}`;
+}
+
+async function fetchTablebase(rows: number, cols: number): Promise<Tablebase | null> {
+  try {
+    const res = await fetch(`${import.meta.env.BASE_URL}tablebase/${sizeKey(rows, cols)}.ntbz`);
+    if (!res.ok || !res.body) return null;
+    const raw = new Response(res.body.pipeThrough(new DecompressionStream("gzip")));
+    return decodeTablebase(new Uint8Array(await raw.arrayBuffer()));
+  } catch {
+    return null; // missing, or not a tablebase (e.g. the dev server's index.html)
+  }
+}
+
+/** Fetch the tablebase for a board size (null if there is none) and make it available to `tablebaseFor`. */
+export function loadTablebase(rows: number, cols: number): Promise<Tablebase | null> {
+  const key = sizeKey(rows, cols);
+  let p = loading.get(key);
+  if (!p) {
+    p = fetchTablebase(rows, cols).then((tb) => {
+      loaded.set(key, tb);
+      return tb;
+    });
+    loading.set(key, p);
+  }
+  return p;
+}
+
+/** Make a tablebase loaded elsewhere (another thread) available to `tablebaseFor`. */
+export function provideTablebase(tb: Tablebase): void {
+  const key = sizeKey(tb.rows, tb.cols);
+  loaded.set(key, tb);
+  loading.set(key, Promise.resolve(tb));
+}
+
+/** The loaded tablebase for this board's size, if any. */
+export function tablebaseFor(board: Board): Tablebase | null {
+  return loaded.get(sizeKey(board.length, board[0]?.length ?? 0)) ?? null;
+}
+
+/**
+ * The tablebase's answer for `turn` (null if no tablebase loaded on this thread
+ * covers the position, or if the game's plies without capture so far leave too
+ * few for its win or loss), scored like a search's forced win or loss.
+ */
+export function tablebaseResult(board: Board, turn: Player, game?: GameHistory): SearchResult | null {
+  const tb = tablebaseFor(board);
+  const known = tb && tablebaseMove(tb, board, turn);
+  if (!known) return null;
+  const { outcome, plies } = known.verdict;
+  if (game && outcome !== "draw" && plies > DRAW_RULES.noProgressPlies - game.noProgress) return null;
+  const score = outcome === "draw" ? 0 : outcome === "win" ? WIN - plies : plies - WIN;
+  const { action, line } = known;
+  return { move: { ...action, score }, score, depth: line.length, pv: line, nodes: 0, elapsedMs: 0 };
+}
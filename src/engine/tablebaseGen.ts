@@ -0,0 +1,240 @@
+// src/engine/tablebaseGen.ts
+import type { Board } from "../game/rules";
+import { DIR_SHIFT, KEY, KING, OCC, WHITE, generateMoves, makeMove, packBoard, unmakeMove, winnerOfPacked } from "./packed";
+import type { Packed, Side } from "./packed";
+import { MAX_PLIES, UNUSED, positionIndex } from "./tablebase";
+import type { Tablebase } from "./tablebase";
+
+/**
+ * Retrograde generator for tablebase.ts (entry point: scripts/tablebase.ts).
+ *
+ * Combining and scattering keep each side's counter count and only captures
+ * lower it, so positions fall into groups by (keys, other counters) per side
+ * that can only be left for smaller groups. Groups are solved smallest first:
+ * every move of a position either stays in its group or lands in a group that
+ * is already solved. Within a group we record the in-group moves once, invert
+ * them, and resolve positions outward by distance to the last key (a
+ * position is lost once all its moves lead to wins for the opponent).
+ */
+export type GroupReport = {
+  name: string;
+  positions: number;
+  wins: number;
+  losses: number;
+  draws: number;
+  /** Plies in the group's longest forced win. */
+  longestWin: number;
+  ms: number;
+};
+
+// [keys, singles, kings] for Black, then for White: the same order as layout keys
+type Layout = { key: string; counts: number[]; pieces: number; kings: number; size: number };
+
+function layoutsOf(keys: [number, number], counters: [number, number], n: number): Layout[] {
+  const out: Layout[] = [];
+  for (let bk = 0; 2 * bk <= counters[0]; bk++) {
+    for (let wk = 0; 2 * wk <= counters[1]; wk++) {
+      const counts = [keys[0], counters[0] - 2 * bk, bk, keys[1], counters[1] - 2 * wk, wk];
+      const pieces = counts.reduce((a, b) => a + b, 0);
+      const kings = bk + wk;
+      out.push({ key: counts.join(""), counts, pieces, kings, size: 2 * n ** pieces * 8 ** kings });
+    }
+  }
+  return out;
+}
+
+// cell byte of each piece, in index order (kings without their arrow)
+function pieceCells(l: Layout): number[] {
+  const out: number[] = [];
+  const kinds = [OCC | KEY, OCC, OCC | KING];
+  l.counts.forEach((count, c) => {
+    for (let i = 0; i < count; i++) out.push(kinds[c % 3] | (c >= 3 ? WHITE : 0));
+  });
+  return out;
+}
+
+/**
+ * Put the position with entry `index` of a layout (given by its `pieceCells`)
+ * on the empty `pb`, pushing the squares it fills to `placed`. False for an
+ * unused index, in which case the board may be partly filled all the same.
+ */
+function place(pb: Packed, cells: number[], index: number, placed: number[]): boolean {
+  const n = pb.cells.length;
+  let rest = index;
+  let kind = -1, prev = -1;
+  for (let p = 0; p < cells.length; p++) {
+    const sq = rest % n;
+    rest = Math.floor(rest / n);
+    if (pb.cells[sq]) return false;
+    // pieces of one kind in ascending order, so each position has one index
+    if (cells[p] === kind && sq <= prev) return false;
+    kind = cells[p];
+    prev = sq;
+    pb.cells[sq] = cells[p];
+    placed.push(sq);
+  }
+  for (const sq of placed) {
+    if (pb.cells[sq] & KING) {
+      pb.cells[sq] |= (rest % 8 + 1) << DIR_SHIFT;
+      rest = Math.floor(rest / 8);
+    }
+  }
+  pb.turn = rest as Side;
+  return true;
+}
+
+function counterCounts(counts: number[]): string {
+  return `${counts[0]}${counts[1] + 2 * counts[2]}${counts[3]}${counts[4] + 2 * counts[5]}`;
+}
+
+/** Solve every layout with at most `maxCounters` counters on a rows × cols board. */
+export function generateTablebase(
+  rows: number,
+  cols: number,
+  maxCounters: number,
+  onGroup?: (report: GroupReport) => void
+): Tablebase {
+  const tb: Tablebase = { rows, cols, tables: new Map() };
+  const n = rows * cols;
+  const blank: Board = Array.from({ length: rows }, () => Array(cols).fill(null));
+  const pb = packBoard(blank, "Black");
+
+  // groups as (Black keys, Black others, White keys, White others), fewest counters first
+  const groups: { keys: [number, number]; counters: [number, number] }[] = [];
+  for (let bk = 1; bk <= 2; bk++)
+    for (let wk = 1; wk <= 2; wk++)
+      for (let bc = 0; bk + wk + bc <= maxCounters; bc++)
+        for (let wc = 0; bk + wk + bc + wc <= maxCounters; wc++) groups.push({ keys: [bk, wk], counters: [bc, wc] });
+  const total = (g: (typeof groups)[number]) => g.keys[0] + g.keys[1] + g.counters[0] + g.counters[1];
+  groups.sort((a, b) => total(a) - total(b));
+
+  for (const g of groups) {
+    const start = Date.now();
+    const layouts = layoutsOf(g.keys, g.counters, n);
+    const group = counterCounts(layouts[0].counts);
+    const offset = new Map<string, number>();
+    let size = 0;
+    for (const l of layouts) {
+      offset.set(l.key, size);
+      size += l.size;
+    }
+
+    const value = new Uint8Array(size).fill(UNUSED);
+    const pending = new Uint16Array(size);
+    const lossMax = new Uint8Array(size);
+    const escape = new Uint8Array(size);
+    const buckets: number[][] = Array.from({ length: MAX_PLIES + 2 }, () => []);
+    // pushes are id * 2 + (1 for a loss)
+    const push = (d: number, id: number, loss: number) => {
+      if (d > MAX_PLIES) throw new Error(`Group ${group}: a result is longer than ${MAX_PLIES} plies.`);
+      buckets[d].push(id * 2 + loss);
+    };
+
+    let from = new Int32Array(1 << 16), to = new Int32Array(1 << 16), edges = 0;
+    const placed: number[] = [];
+    for (const l of layouts) {
+      const cells = pieceCells(l);
+      const base = offset.get(l.key)!;
+      pb.keys = [l.counts[0], l.counts[3]];
+      for (let index = 0; index < l.size; index++) {
+        placed.length = 0;
+        const ok = place(pb, cells, index, placed);
+        if (ok) {
+          const id = base + index;
+          value[id] = 0;
+          pb.rays = null;
+          const mover = pb.turn;
+          let win = 0, moves = 0;
+          for (const m of generateMoves(pb)) {
+            moves++;
+            const u = makeMove(pb, m);
+            if (winnerOfPacked(pb) === mover) {
+              win = 1;
+            } else {
+              const at = positionIndex(pb)!;
+              const inGroup = offset.get(at.key);
+              if (inGroup !== undefined) {
+                if (edges === from.length) {
+                  const grow = (a: Int32Array) => {
+                    const b = new Int32Array(a.length * 2);
+                    b.set(a);
+                    return b;
+                  };
+                  from = grow(from);
+                  to = grow(to);
+                }
+                from[edges] = id;
+                to[edges++] = inGroup + at.index;
+                pending[id]++;
+              } else {
+                const v = tb.tables.get(at.key)![at.index];
+                if (v > UNUSED) {
+                  const d = v - UNUSED + 1;
+                  if (!win || d < win) win = d;
+                } else if (v > 0) {
+                  lossMax[id] = Math.max(lossMax[id], v + 1);
+                } else {
+                  escape[id] = 1;
+                }
+              }
+            }
+            unmakeMove(pb, u);
+          }
+          if (win) push(win, id, 0);
+          else if (!moves) escape[id] = 1; // no legal action: a draw
+          else if (!pending[id] && !escape[id]) push(lossMax[id], id, 1);
+        }
+        for (const sq of placed) pb.cells[sq] = 0;
+      }
+    }
+
+    // predecessors of each position, as a CSR list
+    const predStart = new Int32Array(size + 1);
+    for (let e = 0; e < edges; e++) predStart[to[e] + 1]++;
+    for (let i = 0; i < size; i++) predStart[i + 1] += predStart[i];
+    const preds = new Int32Array(edges);
+    const fill = predStart.slice(0, size);
+    for (let e = 0; e < edges; e++) preds[fill[to[e]]++] = from[e];
+    from = to = new Int32Array(0);
+
+    const resolved = new Uint8Array(size);
+    for (let d = 1; d <= MAX_PLIES; d++) {
+      const bucket = buckets[d];
+      for (let k = 0; k < bucket.length; k++) {
+        const id = bucket[k] >> 1, loss = bucket[k] & 1;
+        if (resolved[id]) continue;
+        resolved[id] = 1;
+        value[id] = loss ? UNUSED + d : d;
+        for (let e = predStart[id]; e < predStart[id + 1]; e++) {
+          const q = preds[e];
+          if (resolved[q]) continue;
+          if (loss) {
+            push(d + 1, q, 0);
+          } else {
+            lossMax[q] = Math.max(lossMax[q], d + 1);
+            if (--pending[q] === 0 && !escape[q]) push(lossMax[q], q, 1);
+          }
+        }
+      }
+      buckets[d] = [];
+    }
+
+    const report: GroupReport = { name: group, positions: 0, wins: 0, losses: 0, draws: 0, longestWin: 0, ms: 0 };
+    for (const l of layouts) {
+      const entries = value.slice(offset.get(l.key)!, offset.get(l.key)! + l.size);
+      tb.tables.set(l.key, entries);
+      for (const v of entries) {
+        if (v === UNUSED) continue;
+        report.positions++;
+        if (v === 0) report.draws++;
+        else if (v < UNUSED) {
+          report.wins++;
+          report.longestWin = Math.max(report.longestWin, v);
+        } else report.losses++;
+      }
+    }
+    report.ms = Date.now() - start;
+    onGroup?.(report);
+  }
+  return tb;
+}
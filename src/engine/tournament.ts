@@ -0,0 +1,211 @@
+// src/engine/tournament.ts
+import { applyAction, generateTurns, initialState } from "../game/reducer";
+import { initialBoard } from "../game/setupBoard";
+import type { SetupId } from "../game/setupBoard";
+import { serializePosition } from "../game/position";
+import type { Position } from "../game/position";
+import type { GameResult } from "../game/result";
+import type { Player } from "../game/rules";
+import type { Action } from "../game/actions";
+import { chooseMove } from "./engines";
+import type { EngineSpec } from "./engines";
+
+/**
+ * Engine-vs-engine matches without the browser (entry point: scripts/tournament.ts).
+ *
+ * Every pairing plays each opening twice, once with each engine on each side.
+ * Results are reported from the first engine's point of view, with an Elo
+ * estimate (95% interval, from the per-game score variance) and a sequential
+ * probability ratio test between two Elo hypotheses.
+ */
+export type Entrant = { name: string; spec: EngineSpec };
+
+export type TournamentMode = "round-robin" | "gauntlet";
+
+/** Wins / draws / losses of `a` against `b`. */
+export type MatchStats = { wins: number; draws: number; losses: number };
+
+export type Pairing = { a: number; b: number; stats: MatchStats; sprt: SprtResult | null };
+
+export type SprtOptions = { elo0: number; elo1: number; alpha: number; beta: number };
+
+export type SprtResult = {
+  llr: number;
+  lower: number;
+  upper: number;
+  /** H1: `a` is at least elo1 stronger; H0: at most elo0; otherwise undecided. */
+  verdict: "H0" | "H1" | "continue";
+};
+
+export type TournamentOptions = {
+  mode: TournamentMode;
+  openings: Position[];
+  /** Games still running after this many plies are scored as draws. */
+  maxPlies: number;
+  /** Stop a pairing early once the test reaches a verdict. */
+  sprt?: SprtOptions;
+};
+
+export type GameReport = {
+  pairing: Pairing;
+  opening: number;
+  black: string;
+  white: string;
+  /** null when the game hit the ply limit (scored as a draw). */
+  result: GameResult | null;
+  plies: number;
+};
+
+// xorshift32, so the same seed always gives the same openings
+function rng(seed: number): () => number {
+  let x = seed >>> 0 || 1;
+  return () => {
+    x ^= x << 13;
+    x ^= x >>> 17;
+    x ^= x << 5;
+    return (x >>> 0) / 0x100000000;
+  };
+}
+
+/** Up to `count` distinct positions reached by `plies` random turns from `setup`. */
+export function randomOpenings(setup: SetupId, count: number, plies: number, seed: number): Position[] {
+  const rand = rng(seed);
+  const out: Position[] = [];
+  const seen = new Set<string>();
+  for (let tries = 0; out.length < count && tries < count * 20; tries++) {
+    let s = initialState(initialBoard(setup));
+    for (let i = 0; i < plies && !s.result; i++) {
+      const turns = generateTurns(s.board, s.turn);
+      const next = applyAction(s, turns[Math.floor(rand() * turns.length)]);
+      if ("error" in next) break;
+      s = next.state;
+    }
+    if (s.result) continue;
+    const key = serializePosition(s.board, s.turn);
+    if (seen.has(key)) continue;
+    seen.add(key);
+    out.push({ board: s.board, turn: s.turn });
+  }
+  return out;
+}
+
+/** Play one game from `start`; the result is null if `maxPlies` ran out first. */
+export function playGame(
+  engines: Record<Player, EngineSpec>,
+  start: Position,
+  maxPlies: number
+): { result: GameResult | null; plies: number; moves: Action[] } {
+  let s = initialState(start.board, start.turn);
+  const moves: Action[] = [];
+  while (moves.length < maxPlies && !s.result) {
+    const move = chooseMove(engines[s.turn], s.board, s.turn, s);
+    if (!move) break;
+    const next = applyAction(s, move);
+    if ("error" in next) throw new Error(`${s.turn} engine played an illegal action: ${next.error}`);
+    moves.push(move);
+    s = next.state;
+  }
+  return { result: s.result, plies: moves.length, moves };
+}
+
+export function pairingsFor(count: number, mode: TournamentMode): [number, number][] {
+  const out: [number, number][] = [];
+  if (mode === "gauntlet") {
+    for (let j = 1; j < count; j++) out.push([0, j]);
+  } else {
+    for (let i = 0; i < count; i++) for (let j = i + 1; j < count; j++) out.push([i, j]);
+  }
+  return out;
+}
+
+export function runTournament(
+  entrants: Entrant[],
+  opts: TournamentOptions,
+  onGame?: (game: GameReport) => void
+): Pairing[] {
+  const pairings: Pairing[] = pairingsFor(entrants.length, opts.mode).map(([a, b]) => ({
+    a,
+    b,
+    stats: { wins: 0, draws: 0, losses: 0 },
+    sprt: null,
+  }));
+
+  for (const pairing of pairings) {
+    const A = entrants[pairing.a], B = entrants[pairing.b];
+    for (let o = 0; o < opts.openings.length; o++) {
+      for (const aSide of ["Black", "White"] as Player[]) {
+        const bSide: Player = aSide === "Black" ? "White" : "Black";
+        const engines = { [aSide]: A.spec, [bSide]: B.spec } as Record<Player, EngineSpec>;
+        const { result, plies } = playGame(engines, opts.openings[o], opts.maxPlies);
+        if (result?.kind === "win") {
+          if (result.winner === aSide) pairing.stats.wins++;
+          else pairing.stats.losses++;
+        } else {
+          pairing.stats.draws++;
+        }
+        onGame?.({
+          pairing,
+          opening: o,
+          black: aSide === "Black" ? A.name : B.name,
+          white: aSide === "White" ? A.name : B.name,
+          result,
+          plies,
+        });
+      }
+      // only after both colours of an opening, so neither side gets the extra game
+      if (opts.sprt) {
+        pairing.sprt = sprt(pairing.stats, opts.sprt);
+        if (pairing.sprt.verdict !== "continue") break;
+      }
+    }
+  }
+  return pairings;
+}
+
+function games(s: MatchStats): number {
+  return s.wins + s.draws + s.losses;
+}
+
+function scoreOf(s: MatchStats): number {
+  return (s.wins + s.draws / 2) / games(s);
+}
+
+// variance of a single game's score (1, ½ or 0) around the mean
+function scoreVariance(s: MatchStats): number {
+  const n = games(s), mu = scoreOf(s);
+  return (s.wins * (1 - mu) ** 2 + s.draws * (0.5 - mu) ** 2 + s.losses * mu ** 2) / n;
+}
+
+function eloOf(score: number): number {
+  return -400 * Math.log10(1 / score - 1);
+}
+
+function scoreFromElo(elo: number): number {
+  return 1 / (1 + 10 ** (-elo / 400));
+}
+
+/** Elo difference implied by the score, with the half-width of its 95% interval. */
+export function eloEstimate(s: MatchStats): { elo: number; margin: number } {
+  const n = games(s);
+  if (!n) return { elo: 0, margin: Infinity };
+  const mu = scoreOf(s);
+  const se = Math.sqrt(scoreVariance(s) / n);
+  const lo = eloOf(Math.max(0, mu - 1.96 * se));
+  const hi = eloOf(Math.min(1, mu + 1.96 * se));
+  return { elo: eloOf(mu), margin: (hi - lo) / 2 };
+}
+
+/** Log-likelihood ratio of elo1 over elo0 (normal approximation) and the test's verdict. */
+export function sprt(s: MatchStats, opts: SprtOptions): SprtResult {
+  const lower = Math.log(opts.beta / (1 - opts.alpha));
+  const upper = Math.log((1 - opts.beta) / opts.alpha);
+  const n = games(s);
+  const v = n ? scoreVariance(s) : 0;
+  let llr = 0;
+  if (v > 0) {
+    const s0 = scoreFromElo(opts.elo0), s1 = scoreFromElo(opts.elo1);
+    llr = (n * (s1 - s0) * (2 * scoreOf(s) - s0 - s1)) / (2 * v);
+  }
+  const verdict = llr >= upper ? "H1" : llr <= lower ? "H0" : "continue";
+  return { llr, lower, upper, verdict };
+}
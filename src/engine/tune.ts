@@ -0,0 +1,173 @@
+// src/engine/tune.ts
+import { applyAction, initialState } from "../game/reducer";
+import { initialBoard } from "../game/setupBoard";
+import type { SetupId } from "../game/setupBoard";
+import { generateCaptures, generateMoves, packBoard, toAction } from "./packed";
+import type { Packed } from "./packed";
+import { buildThreats, evaluateBoard } from "./eval";
+import type { Threats } from "./eval";
+import type { EvalParams } from "./evalParams";
+import { searchBest } from "./search";
+import type { SearchLimits } from "./search";
+
+/**
+ * Texel-style tuning of the evaluation weights (EvalParams.eval).
+ *
+ * Self-play games are reduced to (quiet position, final result) samples. The
+ * evaluation is mapped to an expected score with a logistic curve whose scale K
+ * is fitted first; then each weight is nudged up and down in turn, keeping any
+ * change that lowers the mean squared error between expected and actual results.
+ * Node-only entry point: scripts/tune.ts.
+ */
+export type TuneSample = {
+  pb: Packed;
+  /** Threat picture of `pb` (independent of the weights, so built once). */
+  t: Threats;
+  /** Final result for Black: 1 win, 0.5 draw, 0 loss. */
+  result: number;
+};
+
+export type SelfPlayOptions = {
+  games: number;
+  setup: SetupId;
+  /** Limits for every self-play move (keep them small: thousands of moves are played). */
+  limits: SearchLimits;
+  /** Random plies at the start of each game, so games differ. */
+  openingPlies: number;
+  /** Games are cut off (and dropped) after this many plies. */
+  maxPlies: number;
+};
+
+export type TuneOptions = {
+  /** Relative step tried for each weight (default 0.1), never below `minStep` (default 0.02). */
+  step?: number;
+  minStep?: number;
+  /** Upper bound on sweeps over all weights (default 20). */
+  passes?: number;
+  onPass?: (pass: number, error: number, params: EvalParams) => void;
+};
+
+export type EvalWeight = keyof EvalParams["eval"];
+
+/** Play `games` engine-vs-engine games and keep their quiet positions. */
+export function selfPlaySamples(
+  opts: SelfPlayOptions,
+  onGame?: (game: number, samples: number) => void
+): TuneSample[] {
+  const samples: TuneSample[] = [];
+  for (let g = 0; g < opts.games; g++) {
+    let s = initialState(initialBoard(opts.setup));
+    const seen: Packed[] = [];
+    for (let ply = 0; ply < opts.maxPlies && !s.result; ply++) {
+      const pb = packBoard(s.board, s.turn);
+      let action;
+      if (ply < opts.openingPlies) {
+        const moves = generateMoves(pb);
+        action = toAction(pb, moves[Math.floor(Math.random() * moves.length)]);
+      } else {
+        // positions with a capture pending are left out: their evaluation is unreliable
+        if (!generateCaptures(pb).length) seen.push(pb);
+        action = searchBest(s.board, s.turn, opts.limits, undefined, s).move;
+      }
+      if (!action) break;
+      const next = applyAction(s, action);
+      if ("error" in next) throw new Error(`self-play produced an illegal action: ${next.error}`);
+      s = next.state;
+    }
+
+    const r = s.result;
+    if (r) {
+      const result = r.kind === "draw" ? 0.5 : r.winner === "Black" ? 1 : 0;
+      for (const pb of seen) samples.push({ pb, t: buildThreats(pb), result });
+    }
+    onGame?.(g + 1, samples.length);
+  }
+  return samples;
+}
+
+function sigmoid(k: number, e: number): number {
+  return 1 / (1 + Math.exp(-k * e));
+}
+
+/** Mean squared error of the predicted results under `params`. */
+export function texelError(samples: TuneSample[], params: EvalParams, k: number): number {
+  let sum = 0;
+  for (const { pb, t, result } of samples) {
+    const d = result - sigmoid(k, evaluateBoard(pb, 0, t, params));
+    sum += d * d;
+  }
+  return sum / samples.length;
+}
+
+/** Logistic scale that best fits the samples under `params` (golden-section search). */
+export function fitScale(samples: TuneSample[], params: EvalParams): number {
+  let lo = 0.001, hi = 2;
+  const phi = (Math.sqrt(5) - 1) / 2;
+  for (let i = 0; i < 40; i++) {
+    const a = hi - phi * (hi - lo), b = lo + phi * (hi - lo);
+    if (texelError(samples, params, a) < texelError(samples, params, b)) hi = b;
+    else lo = a;
+  }
+  return (lo + hi) / 2;
+}
+
+/** Local search over the evaluation weights; returns the best parameters found. */
+export function tuneParams(
+  samples: TuneSample[],
+  start: EvalParams,
+  k: number,
+  opts: TuneOptions = {}
+): { params: EvalParams; error: number } {
+  const step = opts.step ?? 0.1;
+  const minStep = opts.minStep ?? 0.02;
+  const passes = opts.passes ?? 20;
+
+  let best: EvalParams = { eval: { ...start.eval }, moves: { ...start.moves } };
+  let bestErr = texelError(samples, best, k);
+  const names = Object.keys(best.eval) as EvalWeight[];
+
+  for (let pass = 1; pass <= passes; pass++) {
+    let improved = false;
+    for (const name of names) {
+      const v = best.eval[name];
+      const delta = Math.max(minStep, Math.abs(v) * step);
+      for (const nv of [v + delta, v - delta]) {
+        const trial: EvalParams = { ...best, eval: { ...best.eval, [name]: nv } };
+        const err = texelError(samples, trial, k);
+        if (err < bestErr) {
+          best = trial;
+          bestErr = err;
+          improved = true;
+          break;
+        }
+      }
+    }
+    opts.onPass?.(pass, bestErr, best);
+    if (!improved) break;
+  }
+  return { params: best, error: bestErr };
+}
+
+/** Source of a weights.ts module exporting `params` as EVAL_WEIGHTS. */
+export function formatWeightsModule(params: EvalParams, note: string): string {
+  const group = (obj: Record<string, number>) =>
+    Object.entries(obj)
+      .map(([k, v]) => `    ${k}: ${Number(v.toFixed(4))},`)
+      .join("\n");
+  return [
+    "// src/engine/weights.ts",
+    'import type { EvalParams } from "./evalParams";',
+    "",
+    "// The engine's weights. `npm run tune` rewrites this file with fitted values.",
+    `// ${note}`,
+    "export const EVAL_WEIGHTS: EvalParams = {",
+    "  eval: {",
+    group(params.eval),
+    "  },",
+    "  moves: {",
+    group(params.moves),
+    "  },",
+    "};",
+    "",
+  ].join("\n");
+}
@@ -0,0 +1,6 @@
+// src/engine/weights.ts
+import { DEFAULT_EVAL_PARAMS } from "./evalParams";
+import type { EvalParams } from "./evalParams";
+
+// The engine's weights. `npm run tune` rewrites this file with fitted values.
+export const EVAL_WEIGHTS: EvalParams = DEFAULT_EVAL_PARAMS;
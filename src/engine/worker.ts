@@ -1,39 +1,29 @@
 // src/engine/worker.ts
 /// <reference lib="webworker" />
 
-import { enumerateMoves } from "./greedy";
-import type { Board, Player } from "../game/rules";
-
-// Infer the item type the enumerator returns (no need to export a type from greedy.ts)
-type AIMove = ReturnType<typeof enumerateMoves>[number];
-
-type RequestMsg = {
-  type: "request";
-  board: Board;
-  turn: Player;
-};
-
-type ResponseMsg = {
-  type: "response";
-  move: AIMove | null;
-};
-
-self.addEventListener("message", (e: MessageEvent<RequestMsg>) => {
-  const { type, board, turn } = e.data;
-  if (type !== "request") return;
-
-  const moves = enumerateMoves(board, turn); // -> AIMove[]
-  let best: AIMove | null = null;
-
-  // Pick the highest-score move (fallback: null if no legal moves)
-  for (const m of moves) {
-    if (!best || m.score > best.score) best = m;
+import { runEngine } from "./engines";
+import { analyzeGame } from "./analysis";
+import { provideTablebase } from "./tablebase";
+import type { AIRequest, AIResponse } from "./aiTypes";
+
+// One job at a time: the client cancels by terminating this worker, so it holds
+// no tablebase of its own (the client answers tablebase positions itself).
+self.addEventListener("message", (e: MessageEvent<AIRequest>) => {
+  const req = e.data;
+  const post = (msg: AIResponse) => (self as DedicatedWorkerGlobalScope).postMessage(msg);
+
+  if (req.type === "search") {
+    const { id, key, board, turn, spec, game } = req;
+    const result = runEngine(spec, board, turn, (progress) => post({ type: "progress", id, key, progress }), game);
+    post({ type: "result", id, key, result });
+  } else {
+    const { id, start, moves, spec, tablebase } = req;
+    if (tablebase) provideTablebase(tablebase);
+    const analysis = analyzeGame(start, moves, spec, (partial, total) =>
+      post({ type: "analysis-progress", id, partial, total })
+    );
+    post({ type: "analysis", id, analysis });
   }
-
-  (self as DedicatedWorkerGlobalScope).postMessage({
-    type: "response",
-    move: best,
-  } as ResponseMsg);
 });
 
 // make this a module worker
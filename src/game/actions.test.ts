@@ -0,0 +1,20 @@
+import { describe, expect, it } from "vitest";
+import { KINGS_MIDGAME, position, randomGame, seededRandom } from "../test/helpers";
+import { actionsEqual, generateLegalActions } from "./actions";
+import { initialBoard } from "./setupBoard";
+
+describe("generateLegalActions", () => {
+  it("never lists an action twice", () => {
+    const rand = seededRandom(7);
+    const starts = [position(KINGS_MIDGAME), { board: initialBoard("quick"), turn: "Black" as const }];
+    for (const start of starts) {
+      for (let g = 0; g < 4; g++) {
+        for (const s of randomGame(start, 60, rand).states) {
+          const actions = generateLegalActions(s.board, s.turn);
+          const repeats = actions.filter((a, i) => actions.findIndex((b) => actionsEqual(a, b)) !== i);
+          expect(repeats).toEqual([]);
+        }
+      }
+    }
+  });
+});
@@ -0,0 +1,111 @@
+// src/game/actions.ts
+import type { Board, Player } from "./rules";
+import { pieceAt, isKing, ownerOf, valueAt, legalMovesFor } from "./rules";
+import { scatterBases, validateScatter } from "./scatter";
+import { DIR_ORDER, coordEq } from "./types";
+import type { Coord, Dir } from "./types";
+
+/**
+ * The one action shape shared by the UI, store, reducer, engine and worker.
+ *  - move:    step (or king slide) onto an empty square
+ *  - capture: same movement, onto an enemy piece
+ *  - combine: single onto an adjacent friendly single; the new king's arrow points from → to
+ *  - rotate:  point a king's arrow in an absolute direction. At value 3+ this is the free
+ *             re-orientation: it keeps the turn, and `then` may carry the action that
+ *             completes the same turn (rotate + follow-up as one compound turn)
+ *  - scatter: split a king over the two squares after `base` along its arrow
+ */
+export type Action =
+  | { kind: "move"; from: Coord; to: Coord }
+  | { kind: "capture"; from: Coord; to: Coord }
+  | { kind: "combine"; from: Coord; to: Coord }
+  | { kind: "rotate"; at: Coord; dir: Dir; then?: Action }
+  | { kind: "scatter"; from: Coord; base: Coord };
+
+export type ActionKind = Action["kind"];
+
+/** What the generator needs to know about the turn beyond the board. */
+export type TurnContext = {
+  /** A free re-orientation was already made this turn (only one is allowed). */
+  freeRotationUsed?: boolean;
+};
+
+/** True for a value 3+ re-orientation, which keeps the turn. */
+export function isFreeRotation(board: Board, a: Action): boolean {
+  return a.kind === "rotate" && valueAt(board, a.at) >= 3;
+}
+
+/** Square of the piece performing the action. */
+export function actionOrigin(a: Action): Coord {
+  return a.kind === "rotate" ? a.at : a.from;
+}
+
+export function actionsEqual(a: Action, b: Action): boolean {
+  if (a.kind !== b.kind || !coordEq(actionOrigin(a), actionOrigin(b))) return false;
+  switch (a.kind) {
+    case "rotate": {
+      const o = b as typeof a;
+      if (a.dir !== o.dir || !a.then !== !o.then) return false;
+      return !a.then || actionsEqual(a.then, o.then!);
+    }
+    case "scatter":
+      return coordEq(a.base, (b as typeof a).base);
+    default:
+      return coordEq(a.to, (b as typeof a).to);
+  }
+}
+
+/**
+ * Every legal single action for the piece on `from` (empty if it isn't `turn`'s piece).
+ * Rotations are listed without a follow-up; see `generateTurns` for compound turns.
+ */
+export function legalActionsFrom(
+  board: Board,
+  from: Coord,
+  turn: Player,
+  ctx: TurnContext = {}
+): Action[] {
+  const p = pieceAt(board, from);
+  if (!p || ownerOf(p) !== turn) return [];
+
+  const out: Action[] = [];
+  const lm = legalMovesFor(board, from);
+  for (const to of lm.captures) out.push({ kind: "capture", from, to });
+  for (const to of lm.moves) out.push({ kind: "move", from, to });
+  for (const to of lm.combines) out.push({ kind: "combine", from, to });
+
+  const v = valueAt(board, from);
+  if (isKing(p) && p.arrowDir && v >= 2) {
+    // re-orientation: any direction but the current one; only one free one per turn
+    if (v < 3 || !ctx.freeRotationUsed) {
+      for (const dir of DIR_ORDER) {
+        if (dir !== p.arrowDir) out.push({ kind: "rotate", at: from, dir });
+      }
+    }
+    for (const base of scatterBases(board, from)) {
+      if (validateScatter(board, from, base).can) out.push({ kind: "scatter", from, base });
+    }
+  }
+  return out;
+}
+
+/** Every legal single action for `turn`, in board order. */
+export function generateLegalActions(board: Board, turn: Player, ctx: TurnContext = {}): Action[] {
+  const out: Action[] = [];
+  for (let r = 0; r < board.length; r++) {
+    for (let c = 0; c < board[r].length; c++) {
+      out.push(...legalActionsFrom(board, { r, c }, turn, ctx));
+    }
+  }
+  return out;
+}
+
+/** Cheaper than `generateLegalActions(...).length > 0`: stops at the first legal action. */
+export function hasLegalAction(board: Board, turn: Player, ctx: TurnContext = {}): boolean {
+  for (let r = 0; r < board.length; r++) {
+    for (let c = 0; c < board[r].length; c++) {
+      if (legalActionsFrom(board, { r, c }, turn, ctx).length > 0) return true;
+    }
+  }
+  return false;
+}
@@ -0,0 +1,165 @@
+// src/game/explain.ts
+import type { Board, Player } from "./rules";
+import { pieceAt, isKing, isKeyPiece, ownerOf, valueAt, onBoard } from "./rules";
+import { scatterBases, validateScatter } from "./scatter";
+import { actionOrigin, actionsEqual, legalActionsFrom } from "./actions";
+import type { Action, TurnContext } from "./actions";
+import { DIRS, coordEq } from "./types";
+import type { Coord } from "./types";
+
+/** Why an action was refused. `message` is a player-facing sentence built from the fields. */
+export type IllegalReason =
+  | { code: "no-piece" }
+  | { code: "not-your-piece"; owner: Player }
+  | { code: "value-too-low"; value: number; needed: number; what: string }
+  | { code: "out-of-bounds" }
+  | { code: "not-reachable" }
+  | { code: "not-along-arrow" }
+  | { code: "own-piece-on-target" }
+  | { code: "nothing-to-capture" }
+  | { code: "enemy-on-target" }
+  | { code: "target-too-strong"; target: number; mine: number }
+  | { code: "mid-blocked" }
+  | { code: "path-blocked"; at: Coord }
+  | { code: "key-cannot-combine" }
+  | { code: "king-cannot-combine" }
+  | { code: "combine-needs-friend" }
+  | { code: "not-a-king" }
+  | { code: "same-direction" }
+  | { code: "free-rotation-used" }
+  | { code: "base-unreachable" }
+  | { code: "scatter-invalid"; detail: string };
+
+export type Explanation =
+  | { legal: true }
+  | { legal: false; reason: IllegalReason; message: string };
+
+export function describeReason(r: IllegalReason): string {
+  switch (r.code) {
+    case "no-piece": return "There is no piece on that square.";
+    case "not-your-piece": return `That piece belongs to ${r.owner}.`;
+    case "value-too-low": return `Value ${r.value} is too low to ${r.what} (needs ${r.needed}).`;
+    case "out-of-bounds": return "That square is off the board.";
+    case "not-reachable": return "That square is out of reach.";
+    case "not-along-arrow": return "Only kings move more than one square, and only along their arrow.";
+    case "own-piece-on-target": return "One of your own pieces is on that square.";
+    case "nothing-to-capture": return "There is no enemy piece there to capture.";
+    case "enemy-on-target": return "An enemy piece is on that square; capture it instead.";
+    case "target-too-strong": return `Target value ${r.target} exceeds your value ${r.mine}.`;
+    case "mid-blocked": return "Mid square blocked for V2 king slide.";
+    case "path-blocked": return "A piece blocks the slide along the arrow.";
+    case "key-cannot-combine": return "Key pieces cannot combine.";
+    case "king-cannot-combine": return "Kings cannot combine further.";
+    case "combine-needs-friend": return "Combine onto an adjacent friendly single.";
+    case "not-a-king": return "Only kings can do that.";
+    case "same-direction": return "The arrow already points that way.";
+    case "free-rotation-used": return "Only one free re-orientation per turn; now make your move.";
+    case "base-unreachable": return "The king cannot slide to that scatter base.";
+    case "scatter-invalid": return r.detail;
+  }
+}
+
+function refuse(reason: IllegalReason): Explanation {
+  return { legal: false, reason, message: describeReason(reason) };
+}
+
+function diagnoseStep(board: Board, from: Coord, to: Coord, capture: boolean): IllegalReason {
+  const me = pieceAt(board, from)!;
+  const v = valueAt(board, from);
+  if (!onBoard(board, to.r, to.c)) return { code: "out-of-bounds" };
+  if (v < 1) return { code: "value-too-low", value: v, needed: 1, what: "move" };
+
+  const t = pieceAt(board, to);
+  if (t && ownerOf(t) === ownerOf(me)) return { code: "own-piece-on-target" };
+  if (capture && !t) return { code: "nothing-to-capture" };
+
+  const dr = to.r - from.r;
+  const dc = to.c - from.c;
+  const dist = Math.max(Math.abs(dr), Math.abs(dc));
+  if (dist === 0) return { code: "not-reachable" };
+
+  if (dist > 1) {
+    if (!isKing(me) || !me.arrowDir) return { code: "not-along-arrow" };
+    const [ar, ac] = DIRS[me.arrowDir];
+    if (dr !== ar * dist || dc !== ac * dist) return { code: "not-along-arrow" };
+    if (v < 2) return { code: "value-too-low", value: v, needed: 2, what: "move along the arrow" };
+    if (v === 2) {
+      if (dist !== 2) return { code: "value-too-low", value: v, needed: 3, what: "slide the full ray" };
+      if (pieceAt(board, { r: from.r + ar, c: from.c + ac })) return { code: "mid-blocked" };
+    } else {
+      for (let i = 1; i < dist; i++) {
+        const at = { r: from.r + ar * i, c: from.c + ac * i };
+        if (pieceAt(board, at)) return { code: "path-blocked", at };
+      }
+    }
+  }
+
+  if (t) {
+    if (!capture) return { code: "enemy-on-target" };
+    const tv = valueAt(board, to);
+    if (tv > v) return { code: "target-too-strong", target: tv, mine: v };
+  }
+  return { code: "not-reachable" };
+}
+
+function diagnoseCombine(board: Board, from: Coord, to: Coord): IllegalReason {
+  const me = pieceAt(board, from)!;
+  const v = valueAt(board, from);
+  const t = pieceAt(board, to);
+  if (!t || ownerOf(t) !== ownerOf(me)) return { code: "combine-needs-friend" };
+  if (isKeyPiece(me) || isKeyPiece(t)) return { code: "key-cannot-combine" };
+  if (isKing(me) || isKing(t)) return { code: "king-cannot-combine" };
+  if (Math.max(Math.abs(to.r - from.r), Math.abs(to.c - from.c)) !== 1) {
+    return { code: "combine-needs-friend" };
+  }
+  if (v < 1) return { code: "value-too-low", value: v, needed: 1, what: "combine" };
+  return { code: "combine-needs-friend" };
+}
+
+/**
+ * Say whether `action` is legal for `turn` and, if not, why.
+ * Legality itself always comes from `legalActionsFrom`; this only diagnoses refusals.
+ * For a compound rotation only the rotation is judged here — its `then` is checked
+ * against the rotated position when the reducer applies it.
+ */
+export function explainAction(
+  board: Board,
+  turn: Player,
+  action: Action,
+  ctx: TurnContext = {}
+): Explanation {
+  const origin = actionOrigin(action);
+  const me = pieceAt(board, origin);
+  if (!me) return refuse({ code: "no-piece" });
+  if (ownerOf(me) !== turn) return refuse({ code: "not-your-piece", owner: ownerOf(me) });
+  const step: Action = action.kind === "rotate" ? { kind: "rotate", at: action.at, dir: action.dir } : action;
+  if (legalActionsFrom(board, origin, turn, ctx).some((a) => actionsEqual(a, step))) {
+    return { legal: true };
+  }
+
+  const v = valueAt(board, origin);
+  switch (action.kind) {
+    case "move":
+    case "capture":
+      return refuse(diagnoseStep(board, action.from, action.to, action.kind === "capture"));
+
+    case "combine":
+      return refuse(diagnoseCombine(board, action.from, action.to));
+
+    case "rotate":
+      if (!isKing(me) || !me.arrowDir) return refuse({ code: "not-a-king" });
+      if (v < 2) return refuse({ code: "value-too-low", value: v, needed: 2, what: "orient" });
+      if (action.dir === me.arrowDir) return refuse({ code: "same-direction" });
+      return refuse({ code: "free-rotation-used" });
+
+    case "scatter": {
+      if (!isKing(me) || !me.arrowDir) return refuse({ code: "not-a-king" });
+      if (v < 2) return refuse({ code: "value-too-low", value: v, needed: 2, what: "scatter" });
+      if (!scatterBases(board, origin).some((b) => coordEq(b, action.base))) {
+        return refuse({ code: "base-unreachable" });
+      }
+      const { reason } = validateScatter(board, origin, action.base);
+      return refuse({ code: "scatter-invalid", detail: reason ?? "Scatter is not legal there." });
+    }
+  }
+}
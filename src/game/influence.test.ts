@@ -0,0 +1,24 @@
+import { describe, expect, it } from "vitest";
+import { KINGS_MIDGAME, position, randomGame, seededRandom } from "../test/helpers";
+import { buildInfluence, influenceOf, raysAt } from "./influence";
+import { initialBoard } from "./setupBoard";
+
+describe("influence maps", () => {
+  it("derived along a game match a map rebuilt from scratch", () => {
+    const starts = [position(KINGS_MIDGAME), { board: initialBoard("long"), turn: "Black" as const }];
+    starts.forEach((start, i) => {
+      for (const s of randomGame(start, 80, seededRandom(20 + i)).states) {
+        expect(influenceOf(s.board)).toEqual(buildInfluence(s.board));
+      }
+    });
+  });
+
+  it("count each king's ray up to and including its blocker", () => {
+    // Black king on a1 points north: a2 and a3 are reached, a3's piece stops it before a4
+    const { board } = position("W3/b3/4/[bb:N]3 b");
+    const inf = buildInfluence(board);
+    expect([1, 2, 3].map((r) => raysAt(inf, { r: 3 - r, c: 0 }, "Black"))).toEqual([1, 1, 0]);
+    expect(raysAt(inf, { r: 3, c: 0 }, "Black")).toBe(0);
+    expect(raysAt(inf, { r: 2, c: 0 }, "White")).toBe(0);
+  });
+});
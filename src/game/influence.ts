@@ -0,0 +1,113 @@
+// src/game/influence.ts
+import type { Board, Piece, Player } from "./rules";
+import { DIRS } from "./types";
+import type { Coord } from "./types";
+
+/**
+ * Ray influence map of one board: how many Black and White king rays reach each
+ * square, plus each king's ray itself, so a change of blockers or arrows only
+ * re-walks the rays it can affect.
+ *
+ * Boards are treated as immutable once read: the map is cached per Board object
+ * (`influenceOf` builds it on first use), and the reducer hands every board it
+ * creates a map derived from its predecessor's (`deriveInfluence`).
+ */
+export type Influence = {
+  cols: number;
+  /** Ray counts per square index (r * cols + c). */
+  black: Uint8Array;
+  white: Uint8Array;
+  /** King square index → the square indices its ray covers (blocker included). */
+  rays: Map<number, number[]>;
+};
+
+const cache = new WeakMap<Board, Influence>();
+
+function kingWithArrow(p: Piece | null): p is Piece {
+  return !!p && p.counters.length === 2 && !!p.arrowDir;
+}
+
+// same walk as getRayForKing, on square indices
+function walkRay(board: Board, r: number, c: number): number[] {
+  const p = board[r][c]!;
+  const [dr, dc] = DIRS[p.arrowDir!];
+  const cols = board[0].length;
+  const out: number[] = [];
+  for (let rr = r + dr, cc = c + dc; rr >= 0 && rr < board.length && cc >= 0 && cc < cols; rr += dr, cc += dc) {
+    out.push(rr * cols + cc);
+    if (board[rr][cc]) break;
+  }
+  return out;
+}
+
+function addRay(inf: Influence, king: number, owner: Player, ray: number[], sign: 1 | -1): void {
+  const counts = owner === "Black" ? inf.black : inf.white;
+  for (const i of ray) counts[i] += sign;
+  if (sign > 0) inf.rays.set(king, ray);
+  else inf.rays.delete(king);
+}
+
+export function buildInfluence(board: Board): Influence {
+  const cols = board[0]?.length ?? 0;
+  const inf: Influence = {
+    cols,
+    black: new Uint8Array(board.length * cols),
+    white: new Uint8Array(board.length * cols),
+    rays: new Map(),
+  };
+  for (let r = 0; r < board.length; r++) {
+    for (let c = 0; c < cols; c++) {
+      const p = board[r][c];
+      if (kingWithArrow(p)) addRay(inf, r * cols + c, p.counters[0].owner, walkRay(board, r, c), 1);
+    }
+  }
+  return inf;
+}
+
+export function influenceOf(board: Board): Influence {
+  let inf = cache.get(board);
+  if (!inf) {
+    inf = buildInfluence(board);
+    cache.set(board, inf);
+  }
+  return inf;
+}
+
+/**
+ * Map for `after`, which differs from `before` only on `touched`. Only kings on a
+ * touched square, or whose ray reached one (it may now stop earlier or run further),
+ * are re-walked.
+ */
+export function deriveInfluence(before: Board, after: Board, touched: Coord[]): Influence {
+  const prev = influenceOf(before);
+  const { cols } = prev;
+  const inf: Influence = {
+    cols,
+    black: prev.black.slice(),
+    white: prev.white.slice(),
+    rays: new Map(prev.rays),
+  };
+
+  const hit = new Set(touched.map(({ r, c }) => r * cols + c));
+  const redo = new Set(hit);
+  for (const [king, ray] of prev.rays) {
+    if (ray.some((i) => hit.has(i))) redo.add(king);
+  }
+
+  for (const i of redo) {
+    const r = Math.floor(i / cols), c = i % cols;
+    const ray = prev.rays.get(i);
+    if (ray) addRay(inf, i, before[r][c]!.counters[0].owner, ray, -1);
+    const p = after[r][c];
+    if (kingWithArrow(p)) addRay(inf, i, p.counters[0].owner, walkRay(after, r, c), 1);
+  }
+
+  cache.set(after, inf);
+  return inf;
+}
+
+/** Number of `owner`'s king rays reaching `pos`. */
+export function raysAt(inf: Influence, pos: Coord, owner: Player): number {
+  const i = pos.r * inf.cols + pos.c;
+  return owner === "Black" ? inf.black[i] : inf.white[i];
+}
@@ -0,0 +1,17 @@
+import { describe, expect, it } from "vitest";
+import { position } from "../test/helpers";
+import { parseAction } from "./notation";
+
+describe("parseAction short forms", () => {
+  it("takes a value-3 king's first slide square as one move", () => {
+    // c1's arrow lifts the a1 king to value 3, so it steps or slides onto a2
+    const { board, turn } = position("W2/3/2B/[bb:N]1[bb:W] b");
+    expect(parseAction(board, turn, "a2")).toEqual({ kind: "move", from: { r: 3, c: 0 }, to: { r: 2, c: 0 } });
+    expect(parseAction(board, turn, "-a2")).toEqual({ kind: "move", from: { r: 3, c: 0 }, to: { r: 2, c: 0 } });
+  });
+
+  it("lists each candidate once when ambiguous", () => {
+    const { board, turn } = position("W2/3/2B/[bb:N]b[bb:W] b");
+    expect(parseAction(board, turn, "a2")).toEqual({ error: "Ambiguous 'a2': a1-a2, b1-a2." });
+  });
+});
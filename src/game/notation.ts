@@ -0,0 +1,165 @@
+// src/game/notation.ts
+import type { Board, Player } from "./rules";
+import { cloneBoard, onBoard, pieceAt } from "./rules";
+import { validateScatter } from "./scatter";
+import { generateLegalActions } from "./actions";
+import type { Action, TurnContext } from "./actions";
+import { explainAction } from "./explain";
+import { applyAction, positionState } from "./reducer";
+import { DIR_ORDER, coordEq } from "./types";
+import type { Coord, Dir } from "./types";
+
+/**
+ * Move notation. Squares are file letter + rank number, with a1 the bottom-left
+ * square (Black's side): file a = c 0, rank 1 = the last row.
+ *
+ *   b3-b4            move
+ *   c5xd6            capture
+ *   e2+f3            combine (e2 onto f3; the new king's arrow points e2 → f3)
+ *   d4@NE            rotate the king on d4 to face NE
+ *   d4~d6(d7,d8)     scatter the king on d4 from base d6 onto d7 and d8
+ *   d4@N;d4-d6       free rotation and its follow-up, one compound turn
+ *
+ * Short forms the parser resolves against the legal actions:
+ *   b4 / xd6 / +f3   leave out the origin when only one piece can do it
+ *   d4~ / d4~d6      leave out the base and/or the landings
+ */
+
+export function formatSquare(board: Board, pos: Coord): string {
+  return `${String.fromCharCode(97 + pos.c)}${board.length - pos.r}`;
+}
+
+export function parseSquare(board: Board, text: string): Coord | null {
+  const m = /^([a-z])(\d+)$/.exec(text);
+  if (!m) return null;
+  const c = m[1].charCodeAt(0) - 97;
+  const r = board.length - Number(m[2]);
+  return onBoard(board, r, c) ? { r, c } : null;
+}
+
+export function formatAction(board: Board, a: Action): string {
+  const sq = (p: Coord) => formatSquare(board, p);
+  switch (a.kind) {
+    case "move": return `${sq(a.from)}-${sq(a.to)}`;
+    case "capture": return `${sq(a.from)}x${sq(a.to)}`;
+    case "combine": return `${sq(a.from)}+${sq(a.to)}`;
+    case "rotate": {
+      const rot = `${sq(a.at)}@${a.dir}`;
+      if (!a.then) return rot;
+      // the follow-up is printed as played, i.e. against the rotated board
+      const p = pieceAt(board, a.at);
+      const mid = cloneBoard(board);
+      if (p) mid[a.at.r][a.at.c] = { ...p, arrowDir: a.dir };
+      return `${rot};${formatAction(mid, a.then)}`;
+    }
+    case "scatter": {
+      const { l1, l2 } = validateScatter(board, a.from, a.base);
+      return `${sq(a.from)}~${sq(a.base)}(${sq(l1)},${sq(l2)})`;
+    }
+  }
+}
+
+const STEP_RE = /^([a-z]\d+)?([-x+])([a-z]\d+)$/;
+const ROTATE_RE = /^([a-z]\d+)@([A-Z]{1,2})$/;
+const SCATTER_RE = /^([a-z]\d+)~([a-z]\d+)?(?:\(([a-z]\d+),([a-z]\d+)\))?$/;
+const DEST_RE = /^[a-z]\d+$/;
+
+const STEP_KIND = { "-": "move", x: "capture", "+": "combine" } as const;
+
+function pickOne(text: string, board: Board, found: Action[], what: string): Action | { error: string } {
+  if (found.length === 1) return found[0];
+  if (!found.length) return { error: `No legal ${what} matches '${text}'.` };
+  return { error: `Ambiguous '${text}': ${found.map((a) => formatAction(board, a)).join(", ")}.` };
+}
+
+/**
+ * Parse `text` as an action for `turn`. Full forms are checked with `explainAction`
+ * (so an illegal move comes back with the reason); short forms must match exactly
+ * one legal action.
+ */
+export function parseAction(
+  board: Board,
+  turn: Player,
+  text: string,
+  ctx: TurnContext = {}
+): Action | { error: string } {
+  const t = text.trim();
+  const sqr = (s: string) => parseSquare(board, s);
+  const bad = (s: string) => ({ error: `Not a square on this board: '${s}'.` });
+  const legal = () => generateLegalActions(board, turn, ctx);
+  const checked = (a: Action): Action | { error: string } => {
+    const why = explainAction(board, turn, a, ctx);
+    return why.legal ? a : { error: `${formatAction(board, a)}: ${why.message}` };
+  };
+
+  // compound turn: free rotation, then its follow-up against the rotated board
+  const semi = t.indexOf(";");
+  if (semi >= 0) {
+    const rot = parseAction(board, turn, t.slice(0, semi), ctx);
+    if ("error" in rot) return rot;
+    if (rot.kind !== "rotate") return { error: `Only a rotation can start a compound turn: '${t}'.` };
+    const mid = applyAction(positionState(board, turn), rot);
+    if ("error" in mid) return { error: `${formatAction(board, rot)}: ${mid.error}` };
+    if (!mid.state.freeRotation) return { error: `${formatAction(board, rot)} is not a free rotation.` };
+    const then = parseAction(mid.state.board, turn, t.slice(semi + 1), { freeRotationUsed: true });
+    if ("error" in then) return then;
+    return { ...rot, then };
+  }
+
+  let m = STEP_RE.exec(t);
+  if (m) {
+    const kind = STEP_KIND[m[2] as keyof typeof STEP_KIND];
+    const to = sqr(m[3]);
+    if (!to) return bad(m[3]);
+    if (m[1]) {
+      const from = sqr(m[1]);
+      if (!from) return bad(m[1]);
+      return checked({ kind, from, to });
+    }
+    return pickOne(t, board, legal().filter((a) => a.kind === kind && coordEq(a.to, to)), kind);
+  }
+
+  if (DEST_RE.test(t)) {
+    const to = sqr(t);
+    if (!to) return bad(t);
+    return pickOne(t, board, legal().filter((a) => a.kind === "move" && coordEq(a.to, to)), "move");
+  }
+
+  m = ROTATE_RE.exec(t);
+  if (m) {
+    const at = sqr(m[1]);
+    if (!at) return bad(m[1]);
+    if (!DIR_ORDER.includes(m[2] as Dir)) return { error: `Unknown direction '${m[2]}'.` };
+    return checked({ kind: "rotate", at, dir: m[2] as Dir });
+  }
+
+  m = SCATTER_RE.exec(t);
+  if (m) {
+    const from = sqr(m[1]);
+    if (!from) return bad(m[1]);
+    const base = m[2] ? sqr(m[2]) : null;
+    if (m[2] && !base) return bad(m[2]);
+    const l1 = m[3] ? sqr(m[3]) : null;
+    const l2 = m[4] ? sqr(m[4]) : null;
+    if (m[3] && (!l1 || !l2)) return bad(!l1 ? m[3] : m[4]);
+
+    if (base) {
+      const a = checked({ kind: "scatter", from, base });
+      if ("error" in a || !l1 || !l2) return a;
+      const v = validateScatter(board, from, base);
+      if (!coordEq(v.l1, l1) || !coordEq(v.l2, l2)) {
+        return { error: `${formatAction(board, a)}: landings do not match '${t}'.` };
+      }
+      return a;
+    }
+    const found = legal().filter((a) => {
+      if (a.kind !== "scatter" || !coordEq(a.from, from)) return false;
+      if (!l1 || !l2) return true;
+      const v = validateScatter(board, from, a.base);
+      return coordEq(v.l1, l1) && coordEq(v.l2, l2);
+    });
+    return pickOne(t, board, found, "scatter");
+  }
+
+  return { error: `Cannot read move '${t}'.` };
+}
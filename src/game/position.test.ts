@@ -0,0 +1,28 @@
+import { describe, expect, it } from "vitest";
+import { parsePosition, serializePosition } from "./position";
+
+describe("parsePosition", () => {
+  it("reads kings and keys back as written", () => {
+    const text = "[ww:NE]W/B[bb:S] w";
+    const pos = parsePosition(text);
+    if ("error" in pos) throw new Error(pos.error);
+    expect(serializePosition(pos.board, pos.turn)).toBe(text);
+  });
+
+  it("rejects boards the hash keys don't cover", () => {
+    const rows = ["W16", ...Array(15).fill("17"), "16B"];
+    expect(parsePosition(`${rows.join("/")} b`)).toEqual({
+      error: "Boards are at most 16×16; this one is 17×17.",
+    });
+  });
+
+  it.each([
+    ["[www:N]1/2 b", "row 0: [www:N] has 3 counters, a king has 2"],
+    ["[Ww:N]1/2 b", "row 0: key in king [Ww:N]: keys are always singles"],
+    ["[ww]1/2 b", "row 0: king [ww] needs an arrow direction"],
+    ["[w:N]1/2 b", "row 0: single [w:N] cannot have an arrow"],
+    ["[w]1/2 b", "row 0: single [w] must be written without brackets"],
+  ])("rejects %s", (text, error) => {
+    expect(parsePosition(text)).toEqual({ error });
+  });
+});
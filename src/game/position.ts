@@ -0,0 +1,144 @@
+// src/game/position.ts
+import type { Board, Counter, Piece, Player } from "./rules";
+import { emptyBoard } from "./rules";
+import { DIR_ORDER } from "./types";
+import { MAX_SIDE } from "./zobrist";
+import type { Dir } from "./types";
+
+/**
+ * Text position notation (FEN-style), e.g. the standard start:
+ *
+ *   wwWwwWww/wwwwwwww/w1w1w1w1/1w3w2/2b3b1/1b1b1b1b/bbbbbbbb/bbBbbBbb b
+ *
+ * Rows run top (r 0) to bottom, separated by '/'. Within a row:
+ *  - 'w' / 'b'   White / Black single
+ *  - 'W' / 'B'   White / Black KEY single
+ *  - digits      that many empty squares (may be more than one digit on wide boards)
+ *  - [ww:NE]     a king in brackets: its two counters (same legend, never keys),
+ *                then ':' and its arrow direction. `[ww:NE]`, `[bb:S]`, ...
+ * After one space comes the side to move: 'b' or 'w'.
+ * All rows must be the same width; the board size is the shape of the rows.
+ */
+export type Position = { board: Board; turn: Player };
+
+function counterChar(c: Counter): string {
+  const ch = c.owner === "White" ? "w" : "b";
+  return c.isKey ? ch.toUpperCase() : ch;
+}
+
+function pieceToken(p: Piece): string {
+  if (p.counters.length === 1 && !p.arrowDir) return counterChar(p.counters[0]);
+  return `[${p.counters.map(counterChar).join("")}${p.arrowDir ? `:${p.arrowDir}` : ""}]`;
+}
+
+export function serializePosition(board: Board, turn: Player): string {
+  const rows = board.map((row) => {
+    let out = "";
+    let empty = 0;
+    for (const p of row) {
+      if (!p) {
+        empty++;
+        continue;
+      }
+      if (empty) out += empty;
+      empty = 0;
+      out += pieceToken(p);
+    }
+    if (empty) out += empty;
+    return out;
+  });
+  return `${rows.join("/")} ${turn === "Black" ? "b" : "w"}`;
+}
+
+function parseCounter(ch: string): Counter | null {
+  switch (ch) {
+    case "w": return { owner: "White", isKey: false };
+    case "W": return { owner: "White", isKey: true };
+    case "b": return { owner: "Black", isKey: false };
+    case "B": return { owner: "Black", isKey: true };
+    default: return null;
+  }
+}
+
+function parseBracket(body: string): Piece | string {
+  const [letters, dir, ...extra] = body.split(":");
+  if (extra.length) return `too many ':' in [${body}]`;
+  const counters: Counter[] = [];
+  for (const ch of letters) {
+    const c = parseCounter(ch);
+    if (!c) return `unknown counter '${ch}' in [${body}]`;
+    counters.push(c);
+  }
+  if (!counters.length) return "empty piece []";
+  if (counters.some((c) => c.owner !== counters[0].owner)) return `mixed owners in [${body}]`;
+  if (dir !== undefined && !DIR_ORDER.includes(dir as Dir)) return `unknown direction '${dir}'`;
+  if (counters.length === 1) {
+    return dir === undefined
+      ? `single [${body}] must be written without brackets`
+      : `single [${body}] cannot have an arrow`;
+  }
+  if (counters.length > 2) return `[${body}] has ${counters.length} counters, a king has 2`;
+  if (counters.some((c) => c.isKey)) return `key in king [${body}]: keys are always singles`;
+  if (dir === undefined) return `king [${body}] needs an arrow direction`;
+  return { counters, arrowDir: dir as Dir };
+}
+
+function parseRow(text: string, r: number): (Piece | null)[] | string {
+  const row: (Piece | null)[] = [];
+  let i = 0;
+  while (i < text.length) {
+    const ch = text[i];
+    if (ch >= "0" && ch <= "9") {
+      let j = i;
+      while (j < text.length && text[j] >= "0" && text[j] <= "9") j++;
+      const n = Number(text.slice(i, j));
+      if (n === 0 || ch === "0") return `row ${r}: bad empty count '${text.slice(i, j)}'`;
+      for (let k = 0; k < n; k++) row.push(null);
+      i = j;
+    } else if (ch === "[") {
+      const end = text.indexOf("]", i);
+      if (end < 0) return `row ${r}: unclosed '['`;
+      const p = parseBracket(text.slice(i + 1, end));
+      if (typeof p === "string") return `row ${r}: ${p}`;
+      row.push(p);
+      i = end + 1;
+    } else {
+      const c = parseCounter(ch);
+      if (!c) return `row ${r}: unexpected '${ch}'`;
+      row.push({ counters: [c] });
+      i++;
+    }
+  }
+  return row;
+}
+
+/**
+ * Strict parser for `serializePosition` output: anything it would not have written
+ * (ragged rows, leading zeros, bracketed singles, pieces the game cannot produce,
+ * unknown letters, boards over MAX_SIDE...) is rejected.
+ */
+export function parsePosition(text: string): Position | { error: string } {
+  const fields = text.trim().split(" ");
+  if (fields.length !== 2) return { error: "Expected '<rows> <side to move>'." };
+  const [rowsText, side] = fields;
+  if (side !== "b" && side !== "w") return { error: `Side to move must be 'b' or 'w', got '${side}'.` };
+
+  const rows: (Piece | null)[][] = [];
+  const parts = rowsText.split("/");
+  for (let r = 0; r < parts.length; r++) {
+    const row = parseRow(parts[r], r);
+    if (typeof row === "string") return { error: row };
+    if (!row.length) return { error: `row ${r} is empty` };
+    if (rows.length && row.length !== rows[0].length) {
+      return { error: `row ${r} has ${row.length} squares, expected ${rows[0].length}` };
+    }
+    rows.push(row);
+  }
+  if (rows.length > MAX_SIDE || rows[0].length > MAX_SIDE) {
+    return { error: `Boards are at most ${MAX_SIDE}×${MAX_SIDE}; this one is ${rows.length}×${rows[0].length}.` };
+  }
+
+  const board = emptyBoard({ rows: rows.length, cols: rows[0].length });
+  rows.forEach((row, r) => row.forEach((p, c) => (board[r][c] = p)));
+  return { board, turn: side === "b" ? "Black" : "White" };
+}
@@ -0,0 +1,61 @@
+import { describe, expect, it } from "vitest";
+import { KINGS_MIDGAME, position, randomGame, seededRandom } from "../test/helpers";
+import type { Position } from "./position";
+import { formatRecord, parseRecord } from "./record";
+import type { GameRecord } from "./record";
+import { initialBoard } from "./setupBoard";
+
+function record(start: Position, plies: number, seed: number): GameRecord {
+  const { states, moves } = randomGame(start, plies, seededRandom(seed));
+  return {
+    black: 'Ann "the Bold"',
+    white: "Greedy AI",
+    date: "2026.10.18",
+    mode: "vsAI",
+    aiColor: "White",
+    start,
+    moves,
+    result: states[states.length - 1].result,
+  };
+}
+
+describe("game records", () => {
+  it("read back what they wrote", () => {
+    const starts: Position[] = [
+      { board: initialBoard("quick"), turn: "Black" },
+      position(KINGS_MIDGAME),
+      { ...position(KINGS_MIDGAME), turn: "White" },
+    ];
+    starts.forEach((start, i) => {
+      const rec = record(start, 40, i + 1);
+      const back = parseRecord(formatRecord(rec));
+      if ("error" in back) throw new Error(back.error);
+      expect(back.record).toEqual(rec);
+      expect(back.states).toHaveLength(rec.moves.length + 1);
+    });
+  });
+
+  it("keep a finished game's result", () => {
+    const keys = position("W3/4/4/3B b");
+    const text = [
+      '[Position "W3/4/4/3B b"]',
+      '[Result "1/2-1/2"]',
+      "1. d1-c1 a4-b4 2. c1-d1 b4-a4 3. d1-c1 a4-b4 4. c1-d1 b4-a4 1/2-1/2",
+    ].join("\n");
+    const read = parseRecord(text);
+    if ("error" in read) throw new Error(read.error);
+    expect(read.record.start).toEqual(keys);
+    expect(read.record.result).toEqual({ kind: "draw", reason: "repetition" });
+    expect(formatRecord(read.record)).toContain('[Termination "repetition"]');
+  });
+
+  it("name the ply of a move that does not apply", () => {
+    const text = '[Position "W3/4/4/3B b"]\n\n1. d1-c1 a4-a2 *';
+    expect(parseRecord(text)).toEqual({ error: expect.stringMatching(/^Ply 2 \(White\) 'a4-a2': /) });
+  });
+
+  it("refuse a result the moves don't reach", () => {
+    const text = '[Position "W3/4/4/3B b"]\n[Result "1-0"]\n\n1. d1-c1 1-0';
+    expect(parseRecord(text)).toEqual({ error: "[Result] says '1-0' but the moves end in '*'." });
+  });
+});
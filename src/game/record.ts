@@ -0,0 +1,174 @@
+// src/game/record.ts
+import type { Player } from "./rules";
+import type { Action } from "./actions";
+import type { GameResult } from "./result";
+import { applyAction, initialState } from "./reducer";
+import type { GameState } from "./reducer";
+import { parsePosition, serializePosition } from "./position";
+import type { Position } from "./position";
+import { formatAction, parseAction } from "./notation";
+
+/**
+ * PGN-like game record:
+ *
+ *   [Black "Human"]
+ *   [White "Greedy AI"]
+ *   [Date "2026.10.18"]
+ *   [Mode "vsAI"]
+ *   [AIColor "White"]
+ *   [Position "wwWwwWww/.../bbBbbBbb b"]
+ *   [Result "1-0"]
+ *   [Termination "keys-captured"]
+ *
+ *   1. b3-b4 g6-g5 2. d2+e3 ... 1-0
+ *
+ * Black moves first, so "1-0" is a Black win, "0-1" a White win, "1/2-1/2" a draw
+ * and "*" an unfinished game. Moves use `notation.ts`; a compound turn is one token
+ * (`d4@N;d4-d6`). A move number ending in "..." means White is to move.
+ */
+export type GameRecord = {
+  black: string;
+  white: string;
+  date: string;
+  /** "hotseat" or "vsAI" (kept as written so older/newer files still load). */
+  mode: string;
+  aiColor: Player | null;
+  start: Position;
+  /** One entry per completed turn. */
+  moves: Action[];
+  result: GameResult | null;
+};
+
+function resultToken(result: GameResult | null): string {
+  if (!result) return "*";
+  if (result.kind === "draw") return "1/2-1/2";
+  return result.winner === "Black" ? "1-0" : "0-1";
+}
+
+function tag(name: string, value: string): string {
+  return `[${name} "${value.replace(/\\/g, "\\\\").replace(/"/g, '\\"')}"]`;
+}
+
+export function formatRecord(rec: GameRecord): string {
+  const lines = [
+    tag("Black", rec.black),
+    tag("White", rec.white),
+    tag("Date", rec.date),
+    tag("Mode", rec.mode),
+    ...(rec.aiColor ? [tag("AIColor", rec.aiColor)] : []),
+    tag("Position", serializePosition(rec.start.board, rec.start.turn)),
+    tag("Result", resultToken(rec.result)),
+    ...(rec.result ? [tag("Termination", rec.result.reason)] : []),
+    "",
+  ];
+
+  // moves are printed against the position they were played in
+  const tokens: string[] = [];
+  let state = initialState(rec.start.board, rec.start.turn);
+  let n = 1;
+  rec.moves.forEach((a, i) => {
+    // keep the move number on the same line as its move
+    const num = state.turn === "Black" ? `${n}. ` : i === 0 ? `${n}... ` : "";
+    tokens.push(num + formatAction(state.board, a));
+    if (state.turn === "White") n++;
+    const res = applyAction(state, a);
+    if (!("error" in res)) state = res.state;
+  });
+  tokens.push(resultToken(rec.result));
+
+  // wrap the move text like PGN does
+  let line = "";
+  for (const t of tokens) {
+    if (line && line.length + 1 + t.length > 80) {
+      lines.push(line);
+      line = t;
+    } else {
+      line = line ? `${line} ${t}` : t;
+    }
+  }
+  lines.push(line);
+  return lines.join("\n") + "\n";
+}
+
+const TAG_RE = /^\[(\w+)\s+"((?:[^"\\]|\\.)*)"\]$/;
+const RESULT_TOKENS = ["1-0", "0-1", "1/2-1/2", "*"];
+
+/**
+ * Read a record and replay it through the rules. Fails on the first line or move
+ * that does not make sense, naming the ply and the reason.
+ */
+export function parseRecord(text: string): { record: GameRecord; states: GameState[] } | { error: string } {
+  const tags: Record<string, string> = {};
+  const moveText: string[] = [];
+  for (const raw of text.split(/\r?\n/)) {
+    const line = raw.trim();
+    if (!line) continue;
+    const m = TAG_RE.exec(line);
+    if (m) {
+      if (moveText.length) return { error: `Tag after the move list: ${line}` };
+      tags[m[1]] = m[2].replace(/\\(.)/g, "$1");
+    } else if (line.startsWith("[")) {
+      return { error: `Malformed tag: ${line}` };
+    } else {
+      moveText.push(line);
+    }
+  }
+
+  const start = tags.Position ? parsePosition(tags.Position) : null;
+  if (!start) return { error: "Missing [Position] tag." };
+  if ("error" in start) return { error: `Bad [Position]: ${start.error}` };
+  const resultTag = tags.Result ?? "*";
+  if (!RESULT_TOKENS.includes(resultTag)) return { error: `Bad [Result] '${resultTag}'.` };
+  const aiColor = tags.AIColor === "Black" || tags.AIColor === "White" ? tags.AIColor : null;
+  if (tags.AIColor && !aiColor) return { error: `Bad [AIColor] '${tags.AIColor}'.` };
+
+  const moves: Action[] = [];
+  let state = initialState(start.board, start.turn);
+  const states = [state];
+  let endToken: string | null = null;
+  for (const tok of moveText.join(" ").split(/\s+/).filter(Boolean)) {
+    if (endToken) return { error: `Text after the result '${endToken}': ${tok}` };
+    if (RESULT_TOKENS.includes(tok)) {
+      endToken = tok;
+      continue;
+    }
+    if (/^\d+\.(\.\.)?$/.test(tok)) continue;
+
+    const ply = moves.length + 1;
+    const a = parseAction(state.board, state.turn, tok);
+    if ("error" in a) return { error: `Ply ${ply} (${state.turn}) '${tok}': ${a.error}` };
+    const res = applyAction(state, a);
+    if ("error" in res) return { error: `Ply ${ply} (${state.turn}) '${tok}': ${res.error}` };
+    if (res.state.freeRotation) return { error: `Ply ${ply} (${state.turn}) '${tok}': free rotation without its follow-up.` };
+    moves.push(a);
+    state = res.state;
+    states.push(state);
+  }
+
+  if (endToken && endToken !== resultTag) {
+    return { error: `Move list ends in '${endToken}' but [Result] says '${resultTag}'.` };
+  }
+  if (resultToken(state.result) !== resultTag) {
+    return { error: `[Result] says '${resultTag}' but the moves end in '${resultToken(state.result)}'.` };
+  }
+
+  return {
+    record: {
+      black: tags.Black ?? "?",
+      white: tags.White ?? "?",
+      date: tags.Date ?? "????.??.??",
+      mode: tags.Mode ?? "hotseat",
+      aiColor,
+      start,
+      moves,
+      result: state.result,
+    },
+    states,
+  };
+}
+
+/** Today as PGN writes dates (YYYY.MM.DD). */
+export function recordDate(d = new Date()): string {
+  const pad = (n: number) => String(n).padStart(2, "0");
+  return `${d.getFullYear()}.${pad(d.getMonth() + 1)}.${pad(d.getDate())}`;
+}
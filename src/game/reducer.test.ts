@@ -0,0 +1,67 @@
+import { describe, expect, it } from "vitest";
+import { KINGS_MIDGAME, position } from "../test/helpers";
+import { applyAction, generateTurns, initialState } from "./reducer";
+
+describe("applyAction", () => {
+  const start = position(KINGS_MIDGAME);
+
+  it("accepts every generated turn without touching the state it was given", () => {
+    const s = initialState(start.board, start.turn);
+    const before = structuredClone(s);
+    for (const a of generateTurns(s.board, s.turn)) {
+      const r = applyAction(s, a);
+      if ("error" in r) throw new Error(r.error);
+      expect(r.state.turn === "White" || r.state.result?.kind === "win").toBe(true);
+      expect(r.state.freeRotation).toBeNull();
+    }
+    expect(s).toEqual(before);
+  });
+
+  it("refuses an empty square and the opponent's pieces", () => {
+    const s = initialState(start.board, start.turn);
+    expect(applyAction(s, { kind: "move", from: { r: 3, c: 0 }, to: { r: 4, c: 0 } })).toEqual({
+      error: "There is no piece on that square.",
+    });
+    expect(applyAction(s, { kind: "move", from: { r: 0, c: 2 }, to: { r: 1, c: 2 } })).toEqual({
+      error: "That piece belongs to White.",
+    });
+  });
+
+  it("refuses everything once the game is over", () => {
+    const s = { ...initialState(start.board, start.turn), result: { kind: "draw", reason: "repetition" } as const };
+    const [a] = generateTurns(s.board, s.turn);
+    expect(applyAction(s, a)).toEqual({ error: "The game is over." });
+  });
+
+  it("counts plies without a capture and resets on one", () => {
+    const s = { ...initialState(start.board, start.turn), noProgress: 5 };
+    const turns = generateTurns(s.board, s.turn);
+    const quiet = applyAction(s, turns.find((a) => a.kind === "move")!);
+    const capture = applyAction(s, turns.find((a) => a.kind === "capture")!);
+    if ("error" in quiet || "error" in capture) throw new Error("expected both turns to be legal");
+    expect(quiet.state.noProgress).toBe(6);
+    expect(capture.state.noProgress).toBe(0);
+    expect(capture.events.some((e) => e.type === "captured")).toBe(true);
+  });
+});
+
+
+describe("free rotation", () => {
+  // Black's a1 king is value 3 (a2's arrow), boxed in by its own value-0 pieces
+  const boxed = position("W3/[ww:S][ww:SW][ww:SW]1/[bb:S]b[ww:SW]1/[bb:S]B2 b");
+
+  it("is refused when nothing can complete the turn", () => {
+    const s = initialState(boxed.board, boxed.turn);
+    const r = applyAction(s, { kind: "rotate", at: { r: 3, c: 0 }, dir: "W" });
+    expect(r).toEqual({ error: "That re-orientation leaves no move to complete the turn." });
+  });
+
+  it("keeps the turn when a follow-up exists", () => {
+    const s = initialState(boxed.board, boxed.turn);
+    const r = applyAction(s, { kind: "rotate", at: { r: 3, c: 0 }, dir: "NE" });
+    if ("error" in r) throw new Error(r.error);
+    expect(r.state.turn).toBe("Black");
+    expect(r.state.freeRotation).toEqual({ at: { r: 3, c: 0 }, dir: "NE" });
+    expect(r.state.result).toBeNull();
+  });
+});
@@ -0,0 +1,225 @@
+// src/game/reducer.ts
+import type { Board, Piece, Player } from "./rules";
+import { pieceAt, isKeyPiece, ownerOf, valueAt, cloneBoard, other } from "./rules";
+import { validateScatter } from "./scatter";
+import {
+  actionOrigin,
+  generateLegalActions,
+  hasLegalAction,
+  isFreeRotation,
+  legalActionsFrom,
+} from "./actions";
+import type { Action } from "./actions";
+import { explainAction } from "./explain";
+import { DRAW_RULES } from "./result";
+import type { GameResult } from "./result";
+import { hashKey, hashPosition, rehash, toggleSide } from "./zobrist";
+import { deriveInfluence } from "./influence";
+import type { ZHash } from "./zobrist";
+import { dirBetween } from "./types";
+import type { Coord, Dir } from "./types";
+
+/**
+ * Everything the rules need to know about a game in progress.
+ * `result` is set once the game is decided; no further actions are accepted.
+ * `hash` is the Zobrist hash of (board, turn), updated incrementally per action.
+ * `noProgress` and `seen` feed the draw rules (plies since a capture, and how
+ * often each position has occurred, keyed by `hashKey`).
+ * `freeRotation` is set mid-turn, after a free re-orientation and before the
+ * move that completes the compound turn.
+ */
+export type GameState = {
+  board: Board;
+  turn: Player;
+  hash: ZHash;
+  result: GameResult | null;
+  noProgress: number;
+  seen: Record<string, number>;
+  freeRotation: { at: Coord; dir: Dir } | null;
+};
+
+/** What happened while applying an action (for animation, logs, sounds...). */
+export type GameEvent =
+  | { type: "moved"; from: Coord; to: Coord }
+  | { type: "captured"; at: Coord; piece: Piece }
+  | { type: "combined"; at: Coord; arrowDir: Dir }
+  | { type: "rotated"; at: Coord; dir: Dir; free: boolean }
+  | { type: "scattered"; from: Coord; l1: Coord; l2: Coord }
+  | { type: "ended"; result: GameResult };
+
+export type ActionResult =
+  | { state: GameState; events: GameEvent[] }
+  | { error: string };
+
+export function initialState(board: Board, turn: Player = "Black"): GameState {
+  const hash = hashPosition(board, turn);
+  return {
+    board,
+    turn,
+    hash,
+    result: canCompleteTurn(board, turn) ? null : { kind: "draw", reason: "no-legal-actions" },
+    noProgress: 0,
+    seen: { [hashKey(hash)]: 1 },
+    freeRotation: null,
+  };
+}
+
+/** A bare state for `board` with no game history (what the engine searches from). */
+export function positionState(board: Board, turn: Player): GameState {
+  return { board, turn, hash: hashPosition(board, turn), result: null, noProgress: 0, seen: {}, freeRotation: null };
+}
+
+function keysRemaining(board: Board, side: Player): number {
+  let n = 0;
+  for (const row of board) {
+    for (const p of row) {
+      if (p && ownerOf(p) === side && isKeyPiece(p)) n++;
+    }
+  }
+  return n;
+}
+
+/**
+ * True if `turn` has a whole turn to play: an action other than a free rotation,
+ * or a free rotation that `applyAction` accepts (one with a follow-up).
+ */
+function canCompleteTurn(board: Board, turn: Player): boolean {
+  for (let r = 0; r < board.length; r++) {
+    for (let c = 0; c < board[r].length; c++) {
+      for (const a of legalActionsFrom(board, { r, c }, turn)) {
+        if (!isFreeRotation(board, a) || !("error" in applyAction(positionState(board, turn), a))) return true;
+      }
+    }
+  }
+  return false;
+}
+
+/**
+ * Validate `action` for the side to move and return the resulting state.
+ * Never mutates `state`; illegal actions come back as `{ error }` with the
+ * player-facing reason from `explainAction`.
+ */
+export function applyAction(state: GameState, action: Action): ActionResult {
+  const { board, turn } = state;
+  if (state.result) return { error: "The game is over." };
+
+  const ctx = { freeRotationUsed: !!state.freeRotation };
+  const why = explainAction(board, turn, action, ctx);
+  if (!why.legal) return { error: why.message };
+  const me = pieceAt(board, actionOrigin(action))!;
+
+  const next = cloneBoard(board);
+  const events: GameEvent[] = [];
+  let touched: Coord[];
+
+  switch (action.kind) {
+    case "move":
+    case "capture": {
+      const { from, to } = action;
+      const taken = next[to.r][to.c];
+      if (taken) events.push({ type: "captured", at: to, piece: taken });
+      next[to.r][to.c] = next[from.r][from.c];
+      next[from.r][from.c] = null;
+      events.push({ type: "moved", from, to });
+      touched = [from, to];
+      break;
+    }
+
+    case "combine": {
+      const { from, to } = action;
+      const a = next[from.r][from.c]!;
+      const b = next[to.r][to.c]!;
+      const arrowDir = dirBetween(from, to)!;
+      next[to.r][to.c] = { counters: [...b.counters, ...a.counters], arrowDir };
+      next[from.r][from.c] = null;
+      events.push({ type: "combined", at: to, arrowDir });
+      touched = [from, to];
+      break;
+    }
+
+    case "rotate": {
+      const { at, dir, then } = action;
+      // Free rotate iff the value *before* rotating is 3+ (so a value-2 king
+      // can't rotate itself into a buff and keep the turn).
+      const free = valueAt(board, at) >= 3;
+      next[at.r][at.c]!.arrowDir = dir;
+      events.push({ type: "rotated", at, dir, free });
+      touched = [at];
+      if (!free) {
+        if (then) return { error: "Only a free (value 3+) re-orientation can be followed by a move." };
+        break;
+      }
+
+      // Mid-turn: the same side still owes the move that completes the turn
+      deriveInfluence(board, next, touched);
+      if (!hasLegalAction(next, turn, { freeRotationUsed: true })) {
+        return { error: "That re-orientation leaves no move to complete the turn." };
+      }
+      const hash = rehash(state.hash, board, next, touched);
+      const mid: GameState = { ...state, board: next, hash, freeRotation: { at, dir } };
+      if (!then) return { state: mid, events };
+      const rest = applyAction(mid, then);
+      if ("error" in rest) return rest;
+      return { state: rest.state, events: [...events, ...rest.events] };
+    }
+
+    case "scatter": {
+      const { from, base } = action;
+      const { l1, l2 } = validateScatter(board, from, base);
+      const owner = ownerOf(me);
+      next[from.r][from.c] = null;
+      for (const l of [l1, l2]) {
+        const t = next[l.r][l.c];
+        if (t && ownerOf(t) !== owner) events.push({ type: "captured", at: l, piece: t });
+        next[l.r][l.c] = { counters: [{ owner }] };
+      }
+      events.push({ type: "scattered", from, l1, l2 });
+      touched = [from, l1, l2];
+      break;
+    }
+  }
+
+  deriveInfluence(board, next, touched);
+  const won = keysRemaining(next, other(turn)) === 0;
+  const nextTurn = won ? turn : other(turn);
+  const captured = events.some((e) => e.type === "captured");
+  const noProgress = captured ? 0 : state.noProgress + 1;
+  let hash = rehash(state.hash, board, next, touched);
+  if (nextTurn !== turn) hash = toggleSide(hash);
+  const key = hashKey(hash);
+  const seen = { ...state.seen, [key]: (state.seen[key] ?? 0) + 1 };
+
+  let result: GameResult | null = null;
+  if (won) result = { kind: "win", winner: turn, reason: "keys-captured" };
+  else if (seen[key] >= DRAW_RULES.repetitions) result = { kind: "draw", reason: "repetition" };
+  else if (noProgress >= DRAW_RULES.noProgressPlies) result = { kind: "draw", reason: "no-progress" };
+  else if (!canCompleteTurn(next, nextTurn)) result = { kind: "draw", reason: "no-legal-actions" };
+  if (result) events.push({ type: "ended", result });
+
+  return {
+    state: { board: next, turn: nextTurn, hash, result, noProgress, seen, freeRotation: null },
+    events,
+  };
+}
+
+/**
+ * Complete turns for `turn`: the legal actions, except that each free rotation is
+ * paired with every follow-up of the same king, so applying any entry ends the turn.
+ * (Follow-ups by other pieces are legal too, but are left out to bound branching.)
+ */
+export function generateTurns(board: Board, turn: Player): Action[] {
+  const out: Action[] = [];
+  for (const a of generateLegalActions(board, turn)) {
+    if (a.kind !== "rotate" || !isFreeRotation(board, a)) {
+      out.push(a);
+      continue;
+    }
+    const mid = applyAction(positionState(board, turn), a);
+    if ("error" in mid) continue;
+    const { board: rotated, freeRotation } = mid.state;
+    for (const then of legalActionsFrom(rotated, a.at, turn, { freeRotationUsed: !!freeRotation })) {
+      out.push({ ...a, then });
+    }
+  }
+  return out;
+}
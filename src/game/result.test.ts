@@ -0,0 +1,44 @@
+import { describe, expect, it } from "vitest";
+import { position } from "../test/helpers";
+import { parseAction } from "./notation";
+import { applyAction, initialState } from "./reducer";
+import type { GameState } from "./reducer";
+import { DRAW_RULES } from "./result";
+import { hashKey } from "./zobrist";
+
+function play(s: GameState, moves: string[]): GameState {
+  for (const text of moves) {
+    const a = parseAction(s.board, s.turn, text);
+    if ("error" in a) throw new Error(a.error);
+    const r = applyAction(s, a);
+    if ("error" in r) throw new Error(r.error);
+    s = r.state;
+  }
+  return s;
+}
+
+describe("draw rules", () => {
+  const keys = position("W3/4/4/3B b");
+
+  it("draws when the side to move has no legal action", () => {
+    // Black's key is walled in by White kings it is too weak to take
+    const walled = position("W3/4/[ww:E][ww:E]2/B[ww:N]2 b");
+    expect(initialState(walled.board, walled.turn).result).toEqual({ kind: "draw", reason: "no-legal-actions" });
+  });
+
+  it("draws when a position occurs for the third time", () => {
+    const shuffle = ["d1-c1", "a4-b4", "c1-d1", "b4-a4"];
+    const twice = play(initialState(keys.board, keys.turn), shuffle);
+    expect(twice.result).toBeNull();
+    const s = play(twice, shuffle);
+    expect(s.result).toEqual({ kind: "draw", reason: "repetition" });
+    expect(s.seen[hashKey(s.hash)]).toBe(DRAW_RULES.repetitions);
+  });
+
+  it(`draws after ${DRAW_RULES.noProgressPlies} plies without a capture`, () => {
+    const s = { ...initialState(keys.board, keys.turn), noProgress: DRAW_RULES.noProgressPlies - 2 };
+    const almost = play(s, ["d1-c1"]);
+    expect(almost.result).toBeNull();
+    expect(play(almost, ["a4-b4"]).result).toEqual({ kind: "draw", reason: "no-progress" });
+  });
+});
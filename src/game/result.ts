@@ -0,0 +1,27 @@
+// src/game/result.ts
+import type { Player } from "./rules";
+
+/** How a finished game ended. */
+export type GameResult =
+  | { kind: "win"; winner: Player; reason: "keys-captured" }
+  | { kind: "draw"; reason: "no-legal-actions" | "repetition" | "no-progress" };
+
+/** Draw thresholds: same (board, turn) seen this many times, or this many plies without a capture. */
+export const DRAW_RULES = {
+  repetitions: 3,
+  noProgressPlies: 80,
+};
+
+export function winnerOf(result: GameResult | null): Player | null {
+  return result?.kind === "win" ? result.winner : null;
+}
+
+export function describeResult(result: GameResult): string {
+  if (result.kind === "win") return `${result.winner} wins (both enemy keys captured).`;
+  switch (result.reason) {
+    case "no-legal-actions": return "Draw: the side to move has no legal action.";
+    case "repetition": return `Draw: the same position occurred ${DRAW_RULES.repetitions} times.`;
+    case "no-progress": return `Draw: ${DRAW_RULES.noProgressPlies} plies without a capture.`;
+  }
+}
+
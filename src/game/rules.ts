@@ -1,14 +1,15 @@
 // src/game/rules.ts
-import { DIRS } from "./types";
-import type { Coord, Dir } from "./types";
+import { DIRS, DEFAULT_SIZE } from "./types";
+import type { BoardSize, Coord, Dir } from "./types";
+import { influenceOf, raysAt } from "./influence";
 export type { Coord, Dir } from "./types";
 
 /** Players */
 export type Player = "Black" | "White";
 
-// create an empty 8×8 board
-export function emptyBoard(): Board {
-  return Array.from({ length: 8 }, () => Array(8).fill(null));
+// create an empty board (8×8 unless told otherwise)
+export function emptyBoard(size: BoardSize = DEFAULT_SIZE): Board {
+  return Array.from({ length: size.rows }, () => Array(size.cols).fill(null));
 }
 
 
@@ -24,15 +25,34 @@ export type Piece = {
   arrowDir?: Dir;           // only meaningful for kings
 };
 
-/** 8x8 board of pieces (null for empty) */
+/** Rows × cols board of pieces (null for empty); the size is the array's own shape. */
 export type Board = (Piece | null)[][];
 
 /** utils */
-const inBounds = (r: number, c: number) => r >= 0 && r < 8 && c >= 0 && c < 8;
+export function sizeOf(b: Board): BoardSize {
+  return { rows: b.length, cols: b[0]?.length ?? 0 };
+}
+
+export function onBoard(b: Board, r: number, c: number): boolean {
+  return r >= 0 && r < b.length && c >= 0 && c < b[r].length;
+}
+
+export function other(p: Player): Player {
+  return p === "Black" ? "White" : "Black";
+}
+
+/** Copy a board deep enough that pieces and counter lists can be changed freely. */
+export function cloneBoard(b: Board): Board {
+  return b.map((row) =>
+    row.map((cell) =>
+      cell ? { counters: [...cell.counters], arrowDir: cell.arrowDir } : null
+    )
+  );
+}
 
 /** piece helpers */
 export function pieceAt(b: Board, pos: Coord): Piece | null {
-  if (!inBounds(pos.r, pos.c)) return null;
+  if (!onBoard(b, pos.r, pos.c)) return null;
   return b[pos.r][pos.c];
 }
 export function isKing(p: Piece): boolean {
@@ -60,7 +80,7 @@ export function getRayForKing(b: Board, from: Coord): Coord[] {
   let r = from.r + dr;
   let c = from.c + dc;
 
-  while (inBounds(r, c)) {
+  while (onBoard(b, r, c)) {
     out.push({ r, c });
     if (pieceAt(b, { r, c })) break; // include blocker, then stop
     r += dr;
@@ -69,31 +89,24 @@ export function getRayForKing(b: Board, from: Coord): Coord[] {
   return out;
 }
 
+/** Counters ± rays before clamping (what the UI shows as "current value"). */
+export function rawValueAt(b: Board, pos: Coord): number {
+  const p = pieceAt(b, pos);
+  if (!p) return 0;
+  const inf = influenceOf(b);
+  const mine = ownerOf(p);
+  return p.counters.length + raysAt(inf, pos, mine) - raysAt(inf, pos, other(mine));
+}
+
 /**
  * Ability value used for movement gating (0–3).
  * Base = number of counters (1 or 2), then ±1 for each allied/enemy ray that hits this square.
- * Self-ray does NOT count (we use getRayForKing on *other* kings only).
+ * Self-ray does NOT count (rays exclude their origin).
  * Values below 0 clamp to 0; above 3 clamp to 3 (rules say ≥3 functions as 3).
+ * Ray counts come from the board's cached influence map (see influence.ts).
  */
 export function valueAt(b: Board, pos: Coord): number {
-  const p = pieceAt(b, pos);
-  if (!p) return 0;
-
-  // base from counters
-  let v = p.counters.length;
-
-  // accumulate rays from ALL kings on board (no self-boost: rays exclude origin by design)
-  for (let r = 0; r < 8; r++) {
-    for (let c = 0; c < 8; c++) {
-      const q = b[r][c];
-      if (!q || !isKing(q) || !q.arrowDir) continue;
-      // if this ray hits 'pos', apply ±1
-      const ray = getRayForKing(b, { r, c }); // no origin included
-      if (ray.some((s) => s.r === pos.r && s.c === pos.c)) {
-        v += ownerOf(q) === ownerOf(p) ? 1 : -1;
-      }
-    }
-  }
+  const v = rawValueAt(b, pos); // 0 for an empty square
 
   // clamp to movement ability band
   if (v <= 0) return 0;
@@ -117,7 +130,7 @@ export function legalMovesFor(
 
   const myOwner = ownerOf(me);
   const myVal = valueAt(board, from); // 0..3 (3 == 3+ ability)
-  const inBounds = (r: number, c: number) => r >= 0 && r < 8 && c >= 0 && c < 8;
+  const inBounds = (r: number, c: number) => onBoard(board, r, c);
 
   const neigh: Coord[] = [
     { r: from.r - 1, c: from.c - 1 }, { r: from.r - 1, c: from.c     }, { r: from.r - 1, c: from.c + 1 },
@@ -179,12 +192,13 @@ export function legalMovesFor(
     // V3+: slide full length along the arrow until blocked; may capture first enemy if <= myVal
     if (myVal >= 3) {
       // getRayForKing returns squares along the arrow, excluding origin, including first blocker
+      // the first square is already listed by (A), so only scan it for a blocker
       const ray = getRayForKing(board, from);
-      for (const q of ray) {
+      for (const [k, q] of ray.entries()) {
         const t = pieceAt(board, q);
         if (!t) {
           // empty: we can move here and continue scanning
-          moves.push(q);
+          if (k > 0) moves.push(q);
           continue;
         }
         if (ownerOf(t) === myOwner) {
@@ -193,7 +207,7 @@ export function legalMovesFor(
         } else {
           // enemy blocks; capture allowed if enemy value <= myVal; then stop
           const tv = valueAt(board, q);
-          if (tv <= myVal) captures.push(q);
+          if (tv <= myVal && k > 0) captures.push(q);
           break;
         }
       }
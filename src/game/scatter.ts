@@ -1,17 +1,15 @@
 // src/game/scatter.ts
 import { DIRS } from "./types";
 import type { Coord } from "./types";
-import { pieceAt, isKing, ownerOf, valueAt } from "./rules";
-
-/** simple bounds check */
-const inBounds = (r: number, c: number) => r >= 0 && r < 8 && c >= 0 && c < 8;
+import type { Board } from "./rules";
+import { pieceAt, isKing, ownerOf, valueAt, onBoard } from "./rules";
 
 /**
  * Bases a king may scatter from.
  * V2: only the current square.
  * V3+: current square + any empty square you can slide to along the arrow (stop before first blocker).
  */
-export function scatterBases(b: any, from: Coord): Coord[] {
+export function scatterBases(b: Board, from: Coord): Coord[] {
   const me = pieceAt(b, from);
   if (!me || !isKing(me) || !me.arrowDir) return [];
   const v = valueAt(b, from);
@@ -21,7 +19,7 @@ export function scatterBases(b: any, from: Coord): Coord[] {
     const [dr, dc] = DIRS[me.arrowDir];
     let r = from.r + dr;
     let c = from.c + dc;
-    while (inBounds(r, c)) {
+    while (onBoard(b, r, c)) {
       if (pieceAt(b, { r, c })) break; // cannot slide past a blocker
       bases.push({ r, c });
       r += dr;
@@ -43,7 +41,7 @@ export function scatterBases(b: any, from: Coord): Coord[] {
  *   (For V2 specifically, that implies each enemy is value 1 at most, matching your earlier note.)
  */
 export function validateScatter(
-  b: any,
+  b: Board,
   from: Coord,
   base: Coord
 ): { l1: Coord; l2: Coord; can: boolean; reason?: string } {
@@ -67,7 +65,7 @@ export function validateScatter(
   const l1 = { r: base.r + dr, c: base.c + dc };
   const l2 = { r: base.r + 2 * dr, c: base.c + 2 * dc };
 
-  if (!inBounds(l1.r, l1.c) || !inBounds(l2.r, l2.c)) {
+  if (!onBoard(b, l1.r, l1.c) || !onBoard(b, l2.r, l2.c)) {
     return { l1, l2, can: false, reason: "Landing squares out of bounds." };
   }
 
@@ -1,10 +1,8 @@
 // src/game/setupBoard.ts
 import type { Board } from "./rules";
+import { emptyBoard } from "./rules";
 
 // helpers
-function emptyBoard(): Board {
-  return Array.from({ length: 8 }, () => Array(8).fill(null));
-}
 function W(isKey = false) {
   return { counters: [{ owner: "White" as const, isKey }] };
 }
@@ -13,7 +11,7 @@ function B(isKey = false) {
 }
 
 /**
- * Desired initial layout (top row = r 0)
+ * Starting layouts (top row = r 0). The board size is the layout's shape.
  *
  * Row strings legend:
  *  - 'w' = White single
@@ -22,33 +20,73 @@ function B(isKey = false) {
  *  - 'B' = Black KEY single
  *  - '.' = empty
  *
- * Layout provided by you:
- *
- * row0: "wWwwwwWw"
- * row1: "wwwwwwww"
- * row2: "w.w.w.w."
- * row3: ".w...w.."
- * row4: "..b...b."
- * row5: ".b.b.b.b"
- * row6: "bbbbbbbb"
- * row7: "bbBbbBbb"
+ * Every layout is point-symmetric, so neither side starts with a better shape.
  */
-const LAYOUT = [
-  "wwWwwWww", // r0 (top)
-  "wwwwwwww", // r1
-  "w.w.w.w.", // r2
-  ".w...w..", // r3
-  "..b...b.", // r4
-  ".b.b.b.b", // r5
-  "bbbbbbbb", // r6
-  "bbBbbBbb", // r7 (bottom)
-];
+export type SetupId = "standard" | "quick" | "long";
+
+export type Setup = {
+  id: SetupId;
+  name: string;
+  layout: string[];
+};
+
+export const SETUPS: Record<SetupId, Setup> = {
+  standard: {
+    id: "standard",
+    name: "Standard 8×8",
+    layout: [
+      "wwWwwWww", // r0 (top)
+      "wwwwwwww", // r1
+      "w.w.w.w.", // r2
+      ".w...w..", // r3
+      "..b...b.", // r4
+      ".b.b.b.b", // r5
+      "bbbbbbbb", // r6
+      "bbBbbBbb", // r7 (bottom)
+    ],
+  },
+  quick: {
+    id: "quick",
+    name: "Quick 6×6",
+    layout: [
+      "wWwwWw",
+      "w.ww.w",
+      ".w..w.",
+      ".b..b.",
+      "b.bb.b",
+      "bBbbBb",
+    ],
+  },
+  long: {
+    id: "long",
+    name: "Long 10×10",
+    layout: [
+      "wwwWwwWwww",
+      "wwwwwwwwww",
+      "w.w.w.w.w.",
+      ".w...w...w",
+      "..........",
+      "..........",
+      "b...b...b.",
+      ".b.b.b.b.b",
+      "bbbbbbbbbb",
+      "bbbBbbBbbb",
+    ],
+  },
+};
 
-export function initialBoard(): Board {
-  const b = emptyBoard();
-  for (let r = 0; r < 8; r++) {
-    const row = LAYOUT[r];
-    for (let c = 0; c < 8; c++) {
+export const DEFAULT_SETUP: SetupId = "standard";
+
+/** Build a board from row strings (see legend above); rows must all be the same length. */
+export function boardFromLayout(layout: string[]): Board {
+  const cols = layout[0]?.length ?? 0;
+  if (layout.some((row) => row.length !== cols)) {
+    throw new Error("Layout rows must all have the same length.");
+  }
+  const b = emptyBoard({ rows: layout.length, cols });
+  for (let r = 0; r < layout.length; r++) {
+    const row = layout[r];
+    for (let c = 0; c < cols; c++) {
       const ch = row[c];
       if (ch === "w") b[r][c] = W(false);
       else if (ch === "W") b[r][c] = W(true);   // White key
@@ -59,3 +97,7 @@ export function initialBoard(): Board {
   }
   return b;
 }
+
+export function initialBoard(setup: SetupId = DEFAULT_SETUP): Board {
+  return boardFromLayout(SETUPS[setup].layout);
+}
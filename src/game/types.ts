@@ -4,6 +4,9 @@ export type Coord = { r: number; c: number };
 
 export const SQUARE = 64;
 
+/** Size of the standard game; other setups may use any rectangle. */
+export const DEFAULT_SIZE = { rows: 8, cols: 8 };
+
 export const DIRS: Record<Dir, [number, number]> = {
   N: [-1, 0],
   NE: [-1, 1],
@@ -15,10 +18,21 @@ export const DIRS: Record<Dir, [number, number]> = {
   NW: [-1, -1],
 };
 
-export function inBounds(r: number, c: number): boolean {
-  return r >= 0 && r < 8 && c >= 0 && c < 8;
+/** Clockwise order starting from north (used by rotation). */
+export const DIR_ORDER: Dir[] = ["N", "NE", "E", "SE", "S", "SW", "W", "NW"];
+
+/** Direction of the single step from `a` towards an adjacent square `b`. */
+export function dirBetween(a: Coord, b: Coord): Dir | null {
+  const dr = Math.sign(b.r - a.r);
+  const dc = Math.sign(b.c - a.c);
+  for (const d of DIR_ORDER) {
+    if (DIRS[d][0] === dr && DIRS[d][1] === dc) return d;
+  }
+  return null;
 }
 
+export type BoardSize = { rows: number; cols: number };
+
 export function coordEq(a: Coord, b: Coord): boolean {
   return a.r === b.r && a.c === b.c;
 }
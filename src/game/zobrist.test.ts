@@ -0,0 +1,34 @@
+import { describe, expect, it } from "vitest";
+import { KINGS_MIDGAME, position, randomGame, seededRandom } from "../test/helpers";
+import { applyAction, initialState } from "./reducer";
+import { initialBoard } from "./setupBoard";
+import { hashKey, hashPosition, parseHashKey } from "./zobrist";
+
+describe("Zobrist hashing", () => {
+  it("updates incrementally to the same hash as a full rehash", () => {
+    const starts = [position(KINGS_MIDGAME), { board: initialBoard("standard"), turn: "Black" as const }];
+    starts.forEach((start, i) => {
+      for (const s of randomGame(start, 60, seededRandom(10 + i)).states) {
+        expect(s.hash).toEqual(hashPosition(s.board, s.turn));
+      }
+    });
+  });
+
+  it("keeps the side to move through a free rotation", () => {
+    // Black's king on a1 is value 3, so re-orienting it keeps the turn
+    const boxed = position("W3/[ww:S][ww:SW][ww:SW]1/[bb:S]b[ww:SW]1/[bb:S]B2 b");
+    const r = applyAction(initialState(boxed.board, boxed.turn), { kind: "rotate", at: { r: 3, c: 0 }, dir: "NE" });
+    if ("error" in r) throw new Error(r.error);
+    expect(r.state.hash).toEqual(hashPosition(r.state.board, "Black"));
+  });
+
+  it("tells the sides to move apart", () => {
+    const { board } = position(KINGS_MIDGAME);
+    expect(hashKey(hashPosition(board, "Black"))).not.toBe(hashKey(hashPosition(board, "White")));
+  });
+
+  it("reads back its keys", () => {
+    const h = hashPosition(position(KINGS_MIDGAME).board, "White");
+    expect(parseHashKey(hashKey(h))).toEqual(h);
+  });
+});
@@ -0,0 +1,104 @@
+// src/game/zobrist.ts
+import type { Board, Piece, Player } from "./rules";
+import { isKeyPiece, ownerOf } from "./rules";
+import { DIR_ORDER } from "./types";
+import type { Coord } from "./types";
+
+/**
+ * 64-bit Zobrist hash of a position, kept as two unsigned 32-bit halves.
+ * Every (square, piece kind) pair has a fixed random key, where the piece kind is
+ * owner × single/king × key flag × arrowDir; the hash of a board is the XOR of the
+ * keys of its pieces, plus one more key when White is to move. The keys come from
+ * a fixed seed, so hashes are the same in every run, tab and worker.
+ */
+export type ZHash = { hi: number; lo: number };
+
+/** Largest board side the key table covers. */
+export const MAX_SIDE = 16;
+const DIRS = DIR_ORDER.length + 1; // 0 = no arrow
+const KINDS = 2 /* owner */ * 2 /* single / king */ * 2 /* key */ * DIRS;
+
+// xorshift32 from a fixed seed: [hi, lo] per (square, kind), then the side key
+const KEYS = new Uint32Array(MAX_SIDE * MAX_SIDE * KINDS * 2 + 2);
+{
+  let x = 0x9e3779b9;
+  for (let i = 0; i < KEYS.length; i++) {
+    x ^= x << 13;
+    x ^= x >>> 17;
+    x ^= x << 5;
+    KEYS[i] = x >>> 0;
+  }
+}
+const SIDE = MAX_SIDE * MAX_SIDE * KINDS * 2;
+
+/**
+ * Piece kind from its parts (owner 0 = Black; dir 0 = no arrow, else DIR_ORDER index + 1).
+ * With `squareKeyBase`, lets the engine's packed board hash without building Pieces:
+ * the key for a piece is KEYS[base + 2 * kind] (hi) and KEYS[base + 2 * kind + 1] (lo).
+ */
+export function kindOf(owner: number, king: number, key: number, dir: number): number {
+  return ((owner * 2 + king) * 2 + key) * DIRS + dir;
+}
+
+export function squareKeyBase(r: number, c: number): number {
+  if (r >= MAX_SIDE || c >= MAX_SIDE) throw new Error(`Zobrist keys cover boards up to ${MAX_SIDE}×${MAX_SIDE}.`);
+  return (r * MAX_SIDE + c) * KINDS * 2;
+}
+
+export { KEYS as ZOBRIST_KEYS, SIDE as SIDE_KEY };
+
+function pieceKind(p: Piece): number {
+  const owner = ownerOf(p) === "Black" ? 0 : 1;
+  const king = p.counters.length >= 2 ? 1 : 0;
+  const key = isKeyPiece(p) ? 1 : 0;
+  const dir = p.arrowDir ? DIR_ORDER.indexOf(p.arrowDir) + 1 : 0;
+  return kindOf(owner, king, key, dir);
+}
+
+function xorKey(h: ZHash, i: number): ZHash {
+  return { hi: (h.hi ^ KEYS[i]) >>> 0, lo: (h.lo ^ KEYS[i + 1]) >>> 0 };
+}
+
+export const EMPTY_HASH: ZHash = { hi: 0, lo: 0 };
+
+/** Add or remove `p` on (r, c): XOR is its own inverse. */
+export function togglePiece(h: ZHash, r: number, c: number, p: Piece | null): ZHash {
+  if (!p) return h;
+  return xorKey(h, squareKeyBase(r, c) + pieceKind(p) * 2);
+}
+
+/** Flip the side to move. */
+export function toggleSide(h: ZHash): ZHash {
+  return xorKey(h, SIDE);
+}
+
+export function hashPosition(board: Board, turn: Player): ZHash {
+  let h = turn === "White" ? toggleSide(EMPTY_HASH) : EMPTY_HASH;
+  for (let r = 0; r < board.length; r++) {
+    for (let c = 0; c < board[r].length; c++) h = togglePiece(h, r, c, board[r][c]);
+  }
+  return h;
+}
+
+/** Incremental update: only the (distinct) `squares` differ between `before` and `after`. */
+export function rehash(h: ZHash, before: Board, after: Board, squares: Coord[]): ZHash {
+  for (const { r, c } of squares) {
+    h = togglePiece(h, r, c, before[r][c]);
+    h = togglePiece(h, r, c, after[r][c]);
+  }
+  return h;
+}
+
+export function hashEq(a: ZHash, b: ZHash): boolean {
+  return a.hi === b.hi && a.lo === b.lo;
+}
+
+/** 16 hex digits, for use as an object/Map key or in files. */
+export function hashKey(h: ZHash): string {
+  return h.hi.toString(16).padStart(8, "0") + h.lo.toString(16).padStart(8, "0");
+}
+
+/** Inverse of `hashKey`. */
+export function parseHashKey(key: string): ZHash {
+  return { hi: parseInt(key.slice(0, 8), 16), lo: parseInt(key.slice(8), 16) };
+}
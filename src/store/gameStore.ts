@@ -1,321 +1,269 @@
 // src/store/gameStore.ts
 import { create } from "zustand";
 import type { Board, Player } from "../game/rules";
-import { pieceAt, isKing, ownerOf, valueAt, isKeyPiece } from "../game/rules";
-import type { Coord } from "../game/types";
-import { initialBoard } from "../game/setupBoard";
-import { generateKingArrowMoves } from "../game/moveGen";
-
-type Highlight = {
+import { pieceAt, ownerOf, cloneBoard } from "../game/rules";
+import { applyAction, initialState } from "../game/reducer";
+import type { GameState as RulesState } from "../game/reducer";
+import { legalActionsFrom } from "../game/actions";
+import type { Action } from "../game/actions";
+import { validateScatter } from "../game/scatter";
+import { parsePosition } from "../game/position";
+import type { Position } from "../game/position";
+import { formatRecord, parseRecord, recordDate } from "../game/record";
+import { DIR_ORDER } from "../game/types";
+import type { Coord, Dir } from "../game/types";
+import { initialBoard, DEFAULT_SETUP } from "../game/setupBoard";
+import type { SetupId } from "../game/setupBoard";
+import { AI_ENGINES, DIFFICULTIES, DEFAULT_DIFFICULTY } from "../engine/difficulty";
+import type { AIEngine, DifficultyId } from "../engine/difficulty";
+
+/**
+ * A square the selected piece can act on, with the exact legal action behind it.
+ * Scatters are keyed by their first landing square (clicking it picks that base).
+ */
+export type Highlight = {
   type: "move" | "combine" | "capture" | "scatter";
   to: Coord;
+  action: Action;
 };
 
-type Snapshot = {
-  board: Board;
-  turn: Player;
-};
+type Snapshot = RulesState;
 
 type GameMode = "hotseat" | "vsAI";
 
-// Direction helpers (used by rotate)
-type AllDir = "N" | "NE" | "E" | "SE" | "S" | "SW" | "W" | "NW";
-const DIR_ORDER: AllDir[] = ["N", "NE", "E", "SE", "S", "SW", "W", "NW"];
-type RotateArg = "CW" | "CCW" | AllDir;
-
-function cloneBoard(b: Board): Board {
-  return b.map((row) =>
-    row.map((cell) =>
-      cell ? { counters: [...cell.counters], arrowDir: cell.arrowDir } : null
-    )
-  );
-}
-
-function inBounds(r: number, c: number) {
-  return r >= 0 && r < 8 && c >= 0 && c < 8;
-}
-
-const ADJ: [number, number][] = [
-  [-1, -1], [-1, 0], [-1, 1],
-  [ 0, -1],          [ 0, 1],
-  [ 1, -1], [ 1, 0], [ 1, 1],
-];
-
-function other(p: Player): Player {
-  return p === "Black" ? "White" : "Black";
-}
-
-function keysRemaining(board: Board, side: Player): number {
-  let n = 0;
-  for (let r = 0; r < 8; r++) {
-    for (let c = 0; c < 8; c++) {
-      const p = pieceAt(board, { r, c });
-      if (!p) continue;
-      if (ownerOf(p) === side && isKeyPiece(p)) n++;
+/** Highlights straight from the canonical generator, so the board never shows an illegal target. */
+function highlightsFor(board: Board, pos: Coord, turn: Player): Highlight[] {
+  const hs: Highlight[] = [];
+  for (const action of legalActionsFrom(board, pos, turn)) {
+    switch (action.kind) {
+      case "move":
+      case "capture":
+      case "combine":
+        hs.push({ type: action.kind, to: action.to, action });
+        break;
+      case "scatter":
+        hs.push({ type: "scatter", to: validateScatter(board, pos, action.base).l1, action });
+        break;
     }
   }
-  return n;
-}
-
-function winnerAfter(board: Board, mover: Player): Player | null {
-  const opp = other(mover);
-  return keysRemaining(board, opp) === 0 ? mover : null;
+  return hs;
 }
 
-type GameState = {
-  board: Board;
-  turn: Player;
+type GameState = RulesState & {
   selected: Coord | null;
   highlights: Highlight[];
-  winner: Player | null;
 
   history: Snapshot[];
   canUndo: boolean;
 
+  /** Where this game started and the turns played since (one entry per history snapshot). */
+  start: Position;
+  moves: Action[];
+
   gameMode: GameMode;
   aiColor: Player;
   setGameMode: (mode: GameMode) => void;
   setAIColor: (side: Player) => void;
+  /** Strength of the vs-AI opponent (see engine/difficulty.ts). */
+  difficulty: DifficultyId;
+  setDifficulty: (level: DifficultyId) => void;
+  /** Which engine plays the vs-AI side. */
+  aiEngine: AIEngine;
+  setAIEngine: (engine: AIEngine) => void;
+
+  /** Starting layout (and with it the board size) used by reset. */
+  setup: SetupId;
+  setSetup: (setup: SetupId) => void;
 
   undo: () => void;
   reset: () => void;
+  /** Start from a pasted position string; returns the parse error, or null on success. */
+  loadPosition: (text: string) => string | null;
+  /** The game so far as a game record (see game/record.ts). */
+  exportGame: () => string;
+  /** Replace the game with a saved record; returns the first problem found, or null on success. */
+  importGame: (text: string) => string | null;
 
   select: (pos: Coord | null) => void;
-  actMove: (from: Coord, to: Coord, isCapture?: boolean) => void;
-  actCombine: (from: Coord, onto: Coord) => void;
-  actScatter: (from: Coord, l1: Coord, l2: Coord) => void;
-  actRotateArrow: (at: Coord, dir: RotateArg) => void;
+  /** Apply any action through the rules; returns false (and changes nothing) if illegal. */
+  dispatch: (action: Action) => boolean;
 
   /** Helpers so all UI paths share the same rotate rule */
   rotateSelected: () => void;
-  orientSelected: (dir: AllDir) => void;
+  orientSelected: (dir: Dir) => void;
 };
 
+/** The rules-relevant slice of the store (what the reducer sees and undo restores). */
+function rulesState(s: RulesState): RulesState {
+  const { board, turn, hash, result, noProgress, seen, freeRotation } = s;
+  return { board, turn, hash, result, noProgress, seen, freeRotation };
+}
+
 export const useGame = create<GameState>((set, get) => ({
-  board: initialBoard(),
-  turn: "Black",
+  ...initialState(initialBoard()),
   selected: null,
   highlights: [],
-  winner: null,
 
   history: [],
   canUndo: false,
 
+  start: { board: initialBoard(), turn: "Black" },
+  moves: [],
+
   gameMode: "hotseat",
   aiColor: "White",
   setGameMode: (mode) => set({ gameMode: mode }),
   setAIColor: (side) => set({ aiColor: side }),
+  difficulty: DEFAULT_DIFFICULTY,
+  setDifficulty: (level) => set({ difficulty: level }),
+  aiEngine: "search",
+  setAIEngine: (engine) => set({ aiEngine: engine }),
+
+  setup: DEFAULT_SETUP,
+  setSetup: (setup) => {
+    set({ setup });
+    get().reset();
+  },
 
   undo: () => {
-    const { history } = get();
+    const { history, moves } = get();
     if (!history.length) return;
     const prev = history[history.length - 1];
     const rest = history.slice(0, -1);
     set({
+      ...prev,
       board: cloneBoard(prev.board),
-      turn: prev.turn,
       selected: null,
       highlights: [],
       history: rest,
       canUndo: rest.length > 0,
-      winner: null,
+      moves: moves.slice(0, -1),
     });
   },
 
   reset: () => {
+    const board = initialBoard(get().setup);
     set({
-      board: initialBoard(),
-      turn: "Black",
+      ...initialState(board),
       selected: null,
       highlights: [],
       history: [],
       canUndo: false,
-      winner: null,
+      start: { board: cloneBoard(board), turn: "Black" },
+      moves: [],
     });
   },
 
-  select: (pos) => {
-    const { board, turn, winner } = get();
-    if (winner) return;
-
-    if (!pos) {
-      set({ selected: null, highlights: [] });
-      return;
-    }
-
-    const me = pieceAt(board, pos);
-    if (!me || ownerOf(me) !== turn) {
-      set({ selected: null, highlights: [] });
-      return;
-    }
-
-    const val = valueAt(board, pos);
-    const hs: Highlight[] = [];
-
-    if (val >= 1) {
-      for (const [dr, dc] of ADJ) {
-        const r = pos.r + dr, c = pos.c + dc;
-        if (!inBounds(r, c)) continue;
-        const tPos = { r, c };
-        const t = pieceAt(board, tPos);
-        if (!t) {
-          hs.push({ type: "move", to: tPos });
-        } else {
-          const tOwner = ownerOf(t);
-          if (tOwner === turn) {
-            if (!isKing(me) && !isKeyPiece(me) && !isKing(t) && !isKeyPiece(t)) {
-              hs.push({ type: "combine", to: tPos });
-            }
-          } else {
-            hs.push({ type: "capture", to: tPos });
-          }
-        }
-      }
-    }
-
-    if (isKing(me) && me.arrowDir) {
-      const arrowHs = generateKingArrowMoves(board, pos, me, val, turn);
-      for (const a of arrowHs) hs.push({ type: a.type, to: a.to });
-    }
-
-    set({ selected: pos, highlights: hs });
-  },
-
-  actMove: (from, to, isCapture = false) => {
-    const { board, turn, history } = get();
-    const p = pieceAt(board, from);
-    if (!p) return;
-
-    const next = cloneBoard(board);
-    if (isCapture) next[to.r][to.c] = null;
-    next[to.r][to.c] = p;
-    next[from.r][from.c] = null;
-
-    const snap: Snapshot = { board: cloneBoard(board), turn };
-    const maybeWinner = winnerAfter(next, turn);
-
+  loadPosition: (text) => {
+    const pos = parsePosition(text);
+    if ("error" in pos) return pos.error;
     set({
-      board: next,
-      turn: maybeWinner ? turn : other(turn),
+      ...initialState(pos.board, pos.turn),
       selected: null,
       highlights: [],
-      history: [...history, snap],
-      canUndo: true,
-      winner: maybeWinner,
+      history: [],
+      canUndo: false,
+      start: { board: cloneBoard(pos.board), turn: pos.turn },
+      moves: [],
+    });
+    return null;
+  },
+
+  exportGame: () => {
+    const { start, moves, freeRotation, result, gameMode, aiColor, difficulty, aiEngine } = get();
+    const ai = `AI (${AI_ENGINES[aiEngine]}, ${DIFFICULTIES[difficulty].name})`;
+    const player = (side: Player) => (gameMode === "vsAI" && side === aiColor ? ai : "Human");
+    return formatRecord({
+      black: player("Black"),
+      white: player("White"),
+      date: recordDate(),
+      mode: gameMode,
+      aiColor: gameMode === "vsAI" ? aiColor : null,
+      start,
+      // a free rotation still waiting for its follow-up is not a turn yet
+      moves: freeRotation ? moves.slice(0, -1) : moves,
+      result,
     });
   },
 
-  actCombine: (from, onto) => {
-    const { board, turn, history } = get();
-    const a = pieceAt(board, from);
-    const b = pieceAt(board, onto);
-    if (!a || !b) return;
-    if (isKing(a) || isKing(b) || isKeyPiece(a) || isKeyPiece(b)) return;
-    if (ownerOf(a) !== ownerOf(b)) return;
-
-    const dr = Math.sign(onto.r - from.r);
-    const dc = Math.sign(onto.c - from.c);
-    const DIR_FROM_DELTA: Record<string, AllDir> = {
-      "-1,0": "N", "-1,1": "NE", "0,1": "E", "1,1": "SE",
-      "1,0": "S", "1,-1": "SW", "0,-1": "W", "-1,-1": "NW",
-    };
-    const arrowDir = DIR_FROM_DELTA[`${dr},${dc}`];
-
-    const next = cloneBoard(board);
-    next[onto.r][onto.c] = {
-      counters: [...b.counters, ...a.counters],
-      arrowDir,
-    };
-    next[from.r][from.c] = null;
-
-    const snap: Snapshot = { board: cloneBoard(board), turn };
+  importGame: (text) => {
+    const parsed = parseRecord(text);
+    if ("error" in parsed) return parsed.error;
+    const { record, states } = parsed;
+    const last = states[states.length - 1];
     set({
-      board: next,
-      turn: other(turn),
+      ...last,
       selected: null,
       highlights: [],
-      history: [...history, snap],
-      canUndo: true,
+      history: states.slice(0, -1),
+      canUndo: states.length > 1,
+      start: record.start,
+      moves: record.moves,
+      gameMode: record.mode === "vsAI" ? "vsAI" : "hotseat",
+      aiColor: record.aiColor ?? get().aiColor,
     });
+    return null;
   },
 
-  actScatter: (from, l1, l2) => {
-    const { board, turn, history } = get();
-    const me = pieceAt(board, from);
-    if (!me || !isKing(me)) return;
-
-    const next = cloneBoard(board);
-
-    const t1 = pieceAt(next, l1);
-    const t2 = pieceAt(next, l2);
-    if (t1 && ownerOf(t1) !== ownerOf(me)) next[l1.r][l1.c] = null;
-    if (t2 && ownerOf(t2) !== ownerOf(me)) next[l2.r][l2.c] = null;
+  select: (pos) => {
+    const { board, turn, result } = get();
+    if (result) return;
 
-    next[from.r][from.c] = null;
+    if (!pos) {
+      set({ selected: null, highlights: [] });
+      return;
+    }
 
-    const owner = ownerOf(me);
-    next[l1.r][l1.c] = { counters: [{ owner }] };
-    next[l2.r][l2.c] = { counters: [{ owner }] };
+    const me = pieceAt(board, pos);
+    if (!me || ownerOf(me) !== turn) {
+      set({ selected: null, highlights: [] });
+      return;
+    }
 
-    const snap: Snapshot = { board: cloneBoard(board), turn };
-    const maybeWinner = winnerAfter(next, turn);
+    set({ selected: pos, highlights: highlightsFor(board, pos, turn) });
+  },
 
+  dispatch: (action) => {
+    const cur = rulesState(get());
+    const res = applyAction(cur, action);
+    if ("error" in res) return false;
+
+    const next = res.state;
+    // A free rotation keeps the turn (and the selection, so the king can still move)
+    const keepSelection = !!next.freeRotation && action.kind === "rotate";
+
+    // One history entry per turn: the follow-up of a compound turn reuses the
+    // snapshot taken before its free rotation, so undo removes the whole turn.
+    // Likewise the move list: the follow-up turns the pending rotation into one compound action.
+    const { history, moves } = get();
+    const snap: Snapshot = { ...cur, board: cloneBoard(cur.board) };
+    const turnAction: Action = cur.freeRotation
+      ? { kind: "rotate", at: cur.freeRotation.at, dir: cur.freeRotation.dir, then: action }
+      : action;
     set({
-      board: next,
-      turn: maybeWinner ? turn : other(turn),
-      selected: null,
-      highlights: [],
-      history: [...history, snap],
+      ...next,
+      selected: keepSelection ? { ...action.at } : null,
+      highlights: keepSelection ? highlightsFor(next.board, action.at, next.turn) : [],
+      history: cur.freeRotation ? history : [...history, snap],
       canUndo: true,
-      winner: maybeWinner,
+      moves: cur.freeRotation ? [...moves.slice(0, -1), turnAction] : [...moves, turnAction],
     });
+    return true;
   },
 
-  actRotateArrow: (at, dir) => {
-  const { board, turn, history } = get();
-  const p = pieceAt(board, at);
-  if (!p || !isKing(p) || !p.arrowDir) return;
-
-  // ✅ Free rotate if and only if the *current effective value* is ≥ 3 (buffs count).
-  //    Evaluate BEFORE rotation so a value-2 king can't rotate to become 3+ and be free.
-  const freeBefore = valueAt(board, at) >= 3;
-
-  // Compute next direction using the top-level DIR_ORDER
-  const idx = DIR_ORDER.indexOf(p.arrowDir as AllDir);
-  let nextDir: AllDir;
-  if (dir === "CW") nextDir = DIR_ORDER[(idx + 1) % 8];
-  else if (dir === "CCW") nextDir = DIR_ORDER[(idx + 7) % 8];
-  else nextDir = dir;
-
-  // Apply on clone
-  const next = cloneBoard(board);
-  const np = next[at.r][at.c];
-  if (!np) return;
-  np.arrowDir = nextDir;
-
-  const snap: Snapshot = { board: cloneBoard(board), turn };
-
-  set({
-    board: next,
-    // Consume the turn only if it was < 3 before rotation
-    turn: freeBefore ? turn : other(turn),
-    selected: { ...at },   // keep selection; Board.tsx clears it only if turn flips
-    highlights: [],
-    history: [...history, snap],
-    canUndo: true,
-  });
-},
-
   // --- UI helpers so every rotate path uses the same rule above ---
   rotateSelected: () => {
-    const { selected, actRotateArrow } = get();
+    const { board, selected, dispatch } = get();
     if (!selected) return;
-    actRotateArrow(selected, "CW");
+    const p = pieceAt(board, selected);
+    if (!p || !p.arrowDir) return;
+    const idx = DIR_ORDER.indexOf(p.arrowDir);
+    dispatch({ kind: "rotate", at: selected, dir: DIR_ORDER[(idx + 1) % 8] });
   },
 
   orientSelected: (dir) => {
-    const { selected, actRotateArrow } = get();
+    const { selected, dispatch } = get();
     if (!selected) return;
-    actRotateArrow(selected, dir);
+    dispatch({ kind: "rotate", at: selected, dir });
   },
 }));
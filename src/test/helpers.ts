@@ -0,0 +1,55 @@
+// src/test/helpers.ts
+import type { Action } from "../game/actions";
+import { parsePosition } from "../game/position";
+import type { Position } from "../game/position";
+import { applyAction, generateTurns, initialState } from "../game/reducer";
+import type { GameState } from "../game/reducer";
+
+/** Shared fixtures for the unit tests. */
+
+/** Parse a position the test knows is valid. */
+export function position(text: string): Position {
+  const pos = parsePosition(text);
+  if ("error" in pos) throw new Error(pos.error);
+  return pos;
+}
+
+/** A middlegame with kings of every value on both sides. */
+export const KINGS_MIDGAME =
+  "[ww:W]1Ww1Www/ww1w2[ww:NE]w/w2[ww:S][ww:W][ww:N]2/1w3w2/2b4b/4[bb:NE]1bb/[bb:SW][bb:N]1[bb:W]1bb1/bbBbbB[bb:W]1 b";
+
+/** Deterministic [0, 1) generator (mulberry32), so random games repeat. */
+export function seededRandom(seed: number): () => number {
+  let a = seed >>> 0;
+  return () => {
+    a = (a + 0x6d2b79f5) >>> 0;
+    let t = a;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+/**
+ * Play up to `plies` uniformly random complete turns from `pos`. Returns every
+ * state reached (the start first) and the moves between them.
+ */
+export function randomGame(
+  pos: Position,
+  plies: number,
+  rand: () => number
+): { states: GameState[]; moves: Action[] } {
+  const states = [initialState(pos.board, pos.turn)];
+  const moves: Action[] = [];
+  for (let i = 0; i < plies; i++) {
+    const s = states[states.length - 1];
+    if (s.result) break;
+    const turns = generateTurns(s.board, s.turn);
+    const move = turns[Math.floor(rand() * turns.length)];
+    const next = applyAction(s, move);
+    if ("error" in next) throw new Error(`random game played an illegal turn: ${next.error}`);
+    states.push(next.state);
+    moves.push(move);
+  }
+  return { states, moves };
+}